@@ -5,9 +5,13 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThirdwebProvider } from "thirdweb/react";
 import { Web3Provider } from "@/contexts/Web3Context";
+import { createFakeService } from "@/lib/chain";
 import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 
+// VITE_CHAIN_SERVICE=fake runs the terminal against an in-memory drop
+const createService = import.meta.env.VITE_CHAIN_SERVICE === "fake" ? createFakeService : undefined;
+
 function Router() {
   return (
     <Switch>
@@ -21,7 +25,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThirdwebProvider>
-        <Web3Provider>
+        <Web3Provider createService={createService}>
           <TooltipProvider>
             <Toaster />
             <Router />
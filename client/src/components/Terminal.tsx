@@ -1,8 +1,9 @@
 import { useEffect, useRef } from "react";
 import { useTerminal } from "@/hooks/useTerminal";
 import { type TerminalLine } from "@shared/schema";
-import { ConnectButton } from "thirdweb/react";
-import { client, chain } from "@/lib/thirdweb";
+import { useWeb3 } from "@/contexts/Web3Context";
+import { isConfigured } from "@/lib/deployments";
+import { promptLabel } from "@/lib/commands";
 
 const ASCII_HEADER = `
  ██████╗███╗   ███╗██████╗ ██╗  ██╗ ██████╗ ██████╗ 
@@ -14,14 +15,29 @@ const ASCII_HEADER = `
 `;
 
 export function Terminal() {
-  const { lines, currentInput, setCurrentInput, isProcessing, scrollRef, handleKeyDown } = useTerminal();
+  const {
+    lines,
+    currentInput,
+    setCurrentInput,
+    suggestion,
+    reverseSearch,
+    isProcessing,
+    pendingPrompt,
+    scrollRef,
+    handleKeyDown,
+  } = useTerminal();
+  // A command waiting on an answer hands the input line back to the user
+  const inputDisabled = isProcessing && !pendingPrompt;
+  // Select prompts are answered with keys only, so there's no text or cursor to show
+  const showCursor = pendingPrompt?.kind !== "select";
+  const { deployment, isWrongChain, connectionStatus } = useWeb3();
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (inputRef.current && !isProcessing) {
+    if (inputRef.current && !inputDisabled) {
       inputRef.current.focus();
     }
-  }, [isProcessing, lines]);
+  }, [inputDisabled, lines]);
 
   const getLineColor = (type: TerminalLine["type"]) => {
     switch (type) {
@@ -62,49 +78,103 @@ export function Terminal() {
         className="flex-1 overflow-y-auto overflow-x-hidden px-6 pb-6 space-y-1"
         data-testid="terminal-output"
       >
-        {lines.map((line) => (
-          <div
-            key={line.id}
-            className={`font-mono text-sm leading-relaxed ${getLineColor(line.type)}`}
-            data-testid={`terminal-line-${line.type}`}
-          >
-            {line.text}
-          </div>
-        ))}
+        {lines.map((line) =>
+          line.type === "image" ? (
+            <div key={line.id} className="py-1" data-testid="terminal-line-image">
+              <img
+                src={line.text}
+                alt=""
+                loading="lazy"
+                className="h-32 w-32 object-contain border border-border"
+                style={{ imageRendering: "pixelated" }}
+              />
+            </div>
+          ) : (
+            <div
+              key={line.id}
+              className={`font-mono text-sm leading-relaxed whitespace-pre-wrap break-words ${getLineColor(line.type)}`}
+              data-testid={`terminal-line-${line.type}`}
+            >
+              {line.text}
+            </div>
+          ),
+        )}
 
         {/* Current Input Line with Inline Cursor */}
         <div className="flex items-center font-mono text-sm leading-relaxed text-foreground">
-          <span className="mr-2" data-testid="prompt-symbol">&gt;</span>
+          {pendingPrompt ? (
+            <span className="mr-2 text-accent whitespace-pre" data-testid={`prompt-${pendingPrompt.kind}`}>
+              {promptLabel(pendingPrompt)}
+            </span>
+          ) : reverseSearch ? (
+            <span className="mr-2 text-accent whitespace-pre" data-testid="prompt-reverse-search">
+              (reverse-i-search)`{reverseSearch.query}':
+            </span>
+          ) : (
+            <span className="mr-2" data-testid="prompt-symbol">&gt;</span>
+          )}
           <div className="flex-1 relative">
             <input
               ref={inputRef}
-              type="text"
+              type={pendingPrompt?.kind === "password" ? "password" : "text"}
               value={currentInput}
               onChange={(e) => setCurrentInput(e.target.value)}
               onKeyDown={handleKeyDown}
-              disabled={isProcessing}
+              disabled={inputDisabled}
               className="w-full bg-transparent border-none outline-none text-foreground caret-transparent font-mono text-sm"
               style={{ caretColor: "transparent" }}
               data-testid="input-command"
               autoComplete="off"
               spellCheck="false"
             />
+            {/* Completion suggestion, laid out after an invisible copy of the input */}
+            {suggestion && (
+              <span
+                className="absolute left-0 top-0 whitespace-pre pointer-events-none font-mono text-sm"
+                data-testid="input-suggestion"
+              >
+                <span className="invisible">{currentInput}</span>
+                <span className="text-muted-foreground">{suggestion}</span>
+              </span>
+            )}
             {/* Blinking Cursor */}
-            <span
-              className="absolute text-accent animate-blink pointer-events-none font-mono text-sm"
-              style={{
-                left: `${currentInput.length * 0.6}ch`,
-                top: "0",
-              }}
-              data-testid="cursor-blink"
-            >
-              █
-            </span>
+            {showCursor && (
+              <span
+                className="absolute text-accent animate-blink pointer-events-none font-mono text-sm"
+                style={{
+                  left: `${currentInput.length * 0.6}ch`,
+                  top: "0",
+                }}
+                data-testid="cursor-blink"
+              >
+                █
+              </span>
+            )}
           </div>
         </div>
 
+        {/* Choices of a pending select prompt, with the highlighted one marked */}
+        {pendingPrompt?.kind === "select" &&
+          pendingPrompt.options.map((option, index) => (
+            <div
+              key={index}
+              className={`font-mono text-sm leading-relaxed whitespace-pre ${index === pendingPrompt.selected ? "text-accent" : "text-foreground"}`}
+              data-testid="prompt-option"
+            >
+              {index === pendingPrompt.selected ? "❯" : " "} {index + 1}. {option.label}
+              {option.description && <span className="text-muted-foreground">  {option.description}</span>}
+            </div>
+          ))}
+
+        {/* Why the last answer to a text prompt was rejected */}
+        {(pendingPrompt?.kind === "text" || pendingPrompt?.kind === "password") && pendingPrompt.error && (
+          <div className="font-mono text-sm leading-relaxed text-destructive" data-testid="prompt-error">
+            {pendingPrompt.error}
+          </div>
+        )}
+
         {/* Processing Indicator */}
-        {isProcessing && (
+        {inputDisabled && (
           <div className="flex items-center space-x-2 text-accent font-mono text-sm" data-testid="processing-indicator">
             <span className="animate-pulse">Processing...</span>
           </div>
@@ -117,21 +187,12 @@ export function Terminal() {
         data-testid="status-bar"
       >
         <div className="text-muted-foreground">
-          Base Chain | NFT Contract Active
+          {deployment.label} | {isConfigured(deployment) ? "NFT Contract Active" : "No NFT Contract"}
         </div>
-        <div className="text-accent">
-          Ready
+        <div className={isWrongChain || connectionStatus === "error" ? "text-destructive" : "text-accent"}>
+          {isWrongChain ? "Wrong Network" : connectionStatus === "connecting" ? "Connecting..." : "Ready"}
         </div>
       </div>
-
-      {/* Hidden Thirdweb v5 Connect Button */}
-      <div id="thirdweb-connect-btn" style={{ position: 'absolute', left: '-9999px' }}>
-        <ConnectButton 
-          client={client}
-          chain={chain}
-          theme="dark"
-        />
-      </div>
     </div>
   );
 }
@@ -1,397 +1,282 @@
-import { createContext, useContext, ReactNode } from "react";
-import { useActiveAccount, useWalletBalance, useSendTransaction } from "thirdweb/react";
-import { getContract, readContract, prepareContractCall, sendTransaction, waitForReceipt } from "thirdweb";
-import { client, chain } from "@/lib/thirdweb";
-import { ethers } from "ethers";
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import {
+  useActiveAccount,
+  useActiveWallet,
+  useActiveWalletChain,
+  useActiveWalletConnectionStatus,
+  useAutoConnect,
+  useConnect,
+  useConnectedWallets,
+  useDisconnect,
+  useSetActiveWallet,
+  useSwitchActiveWalletChain,
+} from "thirdweb/react";
+import { client } from "@/lib/thirdweb";
+import {
+  deployments,
+  getInitialDeployment,
+  saveDeploymentChoice,
+  type Deployment,
+  type DeploymentName,
+} from "@/lib/deployments";
+import { type TransactionTracker } from "@/lib/transactions";
+import {
+  clearConnected,
+  connectTo,
+  getConnectedSince,
+  getWalletOption,
+  markConnected,
+  requestAccountSwitch,
+  supportedWallets,
+  type InAppAuthOption,
+  type WalletOption,
+} from "@/lib/wallets";
+import {
+  createThirdwebService,
+  getClaimTerms,
+  getNFTs,
+  mintNFT,
+  simulateMint,
+  estimateMintCost,
+  type Balance,
+  type ChainService,
+  type ChainServiceFactory,
+  type ClaimConditionInfo,
+  type ClaimTerms,
+  type Holding,
+  type TypedData,
+  type MintOptions,
+  type MintSimulation,
+  type MintCostEstimate,
+} from "@/lib/chain";
+import { type NFT } from "@shared/schema";
+
+export type { MintOptions, ClaimConditionInfo, ClaimTerms, MintSimulation, MintCostEstimate, CostEstimate } from "@/lib/chain";
 
 interface Wallet {
   address: string;
   chainId: number;
   isConnected: boolean;
+  // Which supported wallet is connected; undefined for the in-memory service
+  option?: WalletOption;
+  // Epoch ms the account was first connected in this browser
+  connectedAt?: number;
 }
 
-interface Balance {
-  usdc: string;
-  native: string;
-}
-
-interface NFT {
-  tokenId: string;
-  name: string;
-  image: string;
-  owner: string;
-}
+export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "error";
 
-interface Web3ContextType {
+export interface Web3ContextType {
   wallet: Wallet | null;
-  isConnecting: boolean;
-  connectWallet: () => Promise<void>;
+  connectionStatus: ConnectionStatus;
+  // Why the last connection attempt failed, until the next attempt
+  connectionError: Error | null;
+  // Network the app reads from and sends to; the wallet may be on another chain
+  deployment: Deployment;
+  isWrongChain: boolean;
+  // Selects the deployment and asks a connected wallet to follow it
+  selectNetwork: (name: DeploymentName) => Promise<void>;
+  // Asks the wallet to switch to the selected deployment's chain
+  switchNetwork: () => Promise<void>;
+  // Defaults to MetaMask; `auth` picks the in-app wallet's sign-in method
+  connectWallet: (option?: WalletOption, auth?: InAppAuthOption) => Promise<void>;
   disconnectWallet: () => Promise<void>;
-  mintNFT: (quantity: number) => Promise<string>;
+  // Accounts of every connected wallet, active one first
+  accounts: string[];
+  // Makes another connected wallet's account active, or with no address opens the
+  // wallet's own account picker
+  switchAccount: (address?: string) => Promise<void>;
+  // Chain access for the selected deployment and connected wallet
+  service: ChainService;
+  transactions: TransactionTracker;
+  // Resolves with the claim transaction hash once submitted; follow it via transactions
+  mintNFT: (quantity: number, options?: MintOptions) => Promise<string>;
+  simulateMint: (quantity: number, options?: MintOptions) => Promise<MintSimulation>;
+  // Resolves with the transfer transaction hash once submitted
+  transferNFT: (to: string, tokenId: string, quantity: bigint) => Promise<string>;
+  // Quote plus gas, L1 data fee and USD cost of the transactions mintNFT would send
+  estimateMintCost: (quantity: number, options?: MintOptions) => Promise<MintCostEstimate>;
+  getClaimCondition: () => Promise<ClaimConditionInfo>;
+  // Defaults to the connected wallet
+  getClaimTerms: (address?: string) => Promise<ClaimTerms>;
   getBalance: () => Promise<Balance>;
+  // Token IDs and quantities only, without fetching metadata
+  getHoldings: () => Promise<Holding[]>;
   getNFTs: () => Promise<NFT[]>;
+  signMessage: (message: string) => Promise<string>;
+  signTypedData: (data: TypedData) => Promise<string>;
 }
 
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
 
-const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-const NFT_CONTRACT_ADDRESS = "0x859078e89E58B0Ab0021755B95360f48fBa763dd";
-const TOKEN_ID = 0;
-const MINT_PRICE = 1000000n; // 1 USDC (6 decimals)
+interface Web3ProviderProps {
+  children: ReactNode;
+  // Swap in createFakeService to run without a wallet or RPC
+  createService?: ChainServiceFactory;
+}
 
-export const Web3Provider = ({ children }: { children: ReactNode }) => {
+export const Web3Provider = ({ children, createService = createThirdwebService }: Web3ProviderProps) => {
   const account = useActiveAccount();
-  const { mutateAsync: sendTx } = useSendTransaction();
-  const { data: ethBalance } = useWalletBalance({
+  const activeWallet = useActiveWallet();
+  const activeStatus = useActiveWalletConnectionStatus();
+  const { connect, isConnecting } = useConnect();
+  const { disconnect } = useDisconnect();
+  const connectedWallets = useConnectedWallets();
+  const setActiveWallet = useSetActiveWallet();
+  const [connectionError, setConnectionError] = useState<Error | null>(null);
+  // Reconnects the last used wallet without a prompt on reload
+  const { isLoading: isAutoConnecting } = useAutoConnect({
     client,
-    chain,
-    address: account?.address,
+    wallets: Object.values(supportedWallets),
   });
+  const walletChain = useActiveWalletChain();
+  const switchChain = useSwitchActiveWalletChain();
+  const [deployment, setDeployment] = useState(getInitialDeployment);
+  const { chain } = deployment;
+  const service = useMemo(() => createService(deployment, account), [createService, deployment, account]);
 
-  const wallet: Wallet | null = account ? {
-    address: account.address,
-    chainId: 8453,
+  const wallet: Wallet | null = service.account ? {
+    address: service.account,
+    chainId: walletChain?.id ?? chain.id,
     isConnected: true,
+    option: activeWallet ? getWalletOption(activeWallet) : undefined,
+    connectedAt: getConnectedSince(service.account),
   } : null;
+  const isWrongChain = !!wallet && wallet.chainId !== chain.id;
 
-  const connectWallet = async () => {
-    try {
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      const container = document.getElementById('thirdweb-connect-btn');
-      const button = container?.querySelector('button');
-      
-      if (button) {
-        button.click();
-      } else {
-        throw new Error("Connect button not found. Please refresh the page.");
-      }
-    } catch (error) {
-      console.error("Connection error:", error);
-      throw error;
-    }
+  // Also covers accounts picked in the wallet after connecting
+  useEffect(() => {
+    if (service.account) markConnected(service.account);
+  }, [service.account]);
+
+  const switchNetwork = async () => {
+    await switchChain(chain);
   };
 
-  const disconnectWallet = async () => {
-    try {
-      console.log("Disconnecting wallet...");
-      
-      // Click the thirdweb disconnect button
-      const container = document.getElementById('thirdweb-connect-btn');
-      const button = container?.querySelector('button');
-      
-      if (button && account) {
-        button.click();
-        
-        // Wait for dropdown/modal to appear, then click disconnect
-        await new Promise(resolve => setTimeout(resolve, 300));
-        
-        // Try to find and click disconnect option
-        const disconnectButton = document.querySelector('[data-test="disconnect-wallet"]') || 
-                                 document.querySelector('button:has-text("Disconnect")') ||
-                                 Array.from(document.querySelectorAll('button')).find(
-                                   btn => btn.textContent?.toLowerCase().includes('disconnect')
-                                 );
-        
-        if (disconnectButton) {
-          (disconnectButton as HTMLElement).click();
-          console.log("✓ Wallet disconnected");
-        } else {
-          console.log("Note: Please disconnect manually from the wallet UI");
-        }
-      } else {
-        console.log("No wallet connected");
-      }
-    } catch (error) {
-      console.error("Disconnect error:", error);
-      throw error;
+  const selectNetwork = async (name: DeploymentName) => {
+    const next = deployments[name];
+    setDeployment(next);
+    saveDeploymentChoice(name);
+    if (account && walletChain?.id !== next.chain.id) {
+      await switchChain(next.chain);
     }
   };
 
-  const mintNFT = async (quantity: number = 1): Promise<string> => {
-    if (!wallet || !account) throw new Error("Wallet not connected");
-    
-    if (quantity < 1 || quantity > 100) {
-      throw new Error("Quantity must be between 1 and 100");
+  let connectionStatus: ConnectionStatus = "disconnected";
+  if (wallet) {
+    connectionStatus = "connected";
+  } else if (isConnecting || isAutoConnecting || activeStatus === "connecting") {
+    connectionStatus = "connecting";
+  } else if (connectionError) {
+    connectionStatus = "error";
+  }
+
+  // Sending on the wrong chain would hit a different (or no) contract, so have the wallet switch first
+  const ensureChain = async () => {
+    if (isWrongChain) {
+      await switchChain(chain);
     }
-    
-    const totalPrice = MINT_PRICE * BigInt(quantity);
-    
-    try {
-      console.log("=== Starting Mint Process ===");
-      console.log("Wallet:", wallet.address);
-      console.log("NFT Contract:", NFT_CONTRACT_ADDRESS);
-      console.log("USDC Address:", USDC_ADDRESS);
-      console.log("Quantity:", quantity);
-      console.log("Price per NFT:", (Number(MINT_PRICE) / 1000000).toFixed(2), "USDC");
-      console.log("Total Price:", (Number(totalPrice) / 1000000).toFixed(2), "USDC");
-      
-      // Step 1: Check USDC balance
-      console.log("\n[1/5] Checking USDC balance...");
-      const usdcContract = getContract({
-        client,
-        chain,
-        address: USDC_ADDRESS,
-      });
-      
-      const balance = await readContract({
-        contract: usdcContract,
-        method: "function balanceOf(address) view returns (uint256)",
-        params: [wallet.address],
-      });
-      
-      console.log("USDC Balance:", balance.toString(), `(${(Number(balance) / 1000000).toFixed(2)} USDC)`);
-      
-      if (BigInt(balance) < totalPrice) {
-        throw new Error(`Insufficient USDC balance. Need ${(Number(totalPrice) / 1000000).toFixed(2)} USDC, have ${(Number(balance) / 1000000).toFixed(2)} USDC`);
-      }
-      
-      // Step 2: Check allowance
-      console.log("\n[2/5] Checking USDC allowance...");
-      const allowance = await readContract({
-        contract: usdcContract,
-        method: "function allowance(address owner, address spender) view returns (uint256)",
-        params: [wallet.address, NFT_CONTRACT_ADDRESS],
-      });
-      
-      console.log("Current Allowance:", allowance.toString());
-      
-      // Step 3: Approve if needed
-      if (BigInt(allowance) < totalPrice) {
-        console.log("\n[3/5] Approving USDC spend...");
-        console.log("Approving amount:", totalPrice.toString());
-        
-        const approveTransaction = prepareContractCall({
-          contract: usdcContract,
-          method: "function approve(address spender, uint256 amount) returns (bool)",
-          params: [NFT_CONTRACT_ADDRESS, totalPrice],
-        });
-        
-        const approveResult = await sendTransaction({
-          transaction: approveTransaction,
-          account,
-        });
-        
-        console.log("Approval TX Hash:", approveResult.transactionHash);
-        console.log("Waiting for approval confirmation...");
-        
-        // Wait for approval confirmation
-        const receipt = await waitForReceipt({
-          client,
-          chain,
-          transactionHash: approveResult.transactionHash,
-        });
-        
-        console.log("✓ Approval confirmed! Block:", receipt.blockNumber);
-      } else {
-        console.log("\n[3/5] ✓ USDC already approved");
-      }
-      
-      // Step 4: Prepare claim transaction
-      console.log("\n[4/5] Preparing claim transaction...");
-      
-      const nftContract = getContract({
-        client,
-        chain,
-        address: NFT_CONTRACT_ADDRESS,
-      });
-      
-      // Try using direct contract call instead of manual encoding
+  };
+
+  const connectWallet = async (option: WalletOption = "metamask", auth?: InAppAuthOption) => {
+    setConnectionError(null);
+    let failure: unknown;
+    // useConnect swallows errors from the connect function, so keep our own copy
+    const connected = await connect(async () => {
       try {
-        console.log("Attempting direct contract call...");
-        
-        const claimTransaction = prepareContractCall({
-          contract: nftContract,
-          method: "function claim(address receiver, uint256 tokenId, uint256 quantity, address currency, uint256 pricePerToken, (bytes32[],uint256,uint256,address) allowlistProof, bytes data)",
-          params: [
-            account.address,      // receiver
-            BigInt(TOKEN_ID),     // tokenId
-            BigInt(quantity),     // quantity
-            USDC_ADDRESS,         // currency
-            MINT_PRICE,           // pricePerToken
-            [[], 0n, MINT_PRICE, USDC_ADDRESS], // allowlistProof
-            "0x"                  // data
-          ],
-        });
-        
-        console.log("\n[5/5] Sending claim transaction...");
-        const result = await sendTx(claimTransaction);
-        
-        console.log("Claim TX Hash:", result.transactionHash);
-        console.log(`✓ ${quantity} NFT(s) claimed successfully!`);
-        console.log("=== Mint Complete ===\n");
-        
-        return result.transactionHash;
-        
-      } catch (directCallError: any) {
-        console.error("Direct call failed:", directCallError);
-        console.log("\nFalling back to manual encoding...");
-        
-        // Fallback to manual encoding
-        const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-        const functionSelector = "0x84bb1e42";
-        
-        const encodedParams = abiCoder.encode(
-          [
-            "address",
-            "uint256", 
-            "uint256",
-            "address",
-            "uint256",
-            "tuple(bytes32[],uint256,uint256,address)",
-            "bytes"
-          ],
-          [
-            account.address,
-            TOKEN_ID,
-            quantity,
-            USDC_ADDRESS,
-            Number(MINT_PRICE),
-            [[], 0, Number(MINT_PRICE), USDC_ADDRESS],
-            "0x"
-          ]
-        );
-        
-        const callData = functionSelector + encodedParams.slice(2);
-        console.log("Encoded call data:", callData);
-        
-        const transaction = {
-          to: NFT_CONTRACT_ADDRESS,
-          data: callData,
-          value: 0n,
-          chain,
-          client,
-        };
-        
-        console.log("\n[5/5] Sending manually encoded transaction...");
-        const result = await sendTx(transaction);
-        
-        console.log("Claim TX Hash:", result.transactionHash);
-        console.log(`✓ ${quantity} NFT(s) claimed successfully!`);
-        console.log("=== Mint Complete ===\n");
-        
-        return result.transactionHash;
-      }
-      
-    } catch (error: any) {
-      console.error("\n=== MINT ERROR ===");
-      console.error("Error type:", error.constructor.name);
-      console.error("Error message:", error.message);
-      console.error("Full error:", error);
-      
-      // Log stack trace if available
-      if (error.stack) {
-        console.error("Stack trace:", error.stack);
-      }
-      
-      // Log additional error properties
-      if (error.data) {
-        console.error("Error data:", error.data);
+        return await connectTo(option, chain, auth);
+      } catch (error) {
+        failure = error;
+        throw error;
       }
-      if (error.code) {
-        console.error("Error code:", error.code);
-      }
-      if (error.reason) {
-        console.error("Error reason:", error.reason);
-      }
-      
-      // Parse specific error messages
-      if (error.message?.includes("rejected") || error.message?.includes("denied")) {
-        throw new Error("Transaction rejected by user");
-      } else if (error.message?.includes("insufficient funds") || error.message?.includes("insufficient balance")) {
-        throw new Error("Insufficient USDC or ETH balance");
-      } else if (error.message?.includes("DropNoActiveCondition")) {
-        throw new Error("No active claim condition - minting may be paused");
-      } else if (error.message?.includes("DropClaimExceedLimit") || error.message?.includes("exceed")) {
-        throw new Error("Already claimed maximum amount");
-      } else if (error.message?.includes("allowance")) {
-        throw new Error("USDC allowance issue - try again");
-      } else if (error.message?.includes("execution reverted")) {
-        const revertReason = error.message.match(/reverted: (.+)/)?.[1] || "unknown reason";
-        throw new Error(`Transaction reverted: ${revertReason}`);
-      }
-      
-      // If we couldn't parse the error, throw the original
-      throw new Error(`Mint failed: ${error.message || "Unknown error - check console for details"}`);
+    });
+
+    if (!connected) {
+      const error = failure instanceof Error ? failure : new Error("Connection cancelled");
+      setConnectionError(error);
+      throw error;
     }
   };
 
-  const getBalance = async (): Promise<Balance> => {
-    if (!wallet) throw new Error("Wallet not connected");
-    
-    try {
-      const usdcContract = getContract({
-        client,
-        chain,
-        address: USDC_ADDRESS,
-      });
-      
-      const usdcBalance = await readContract({
-        contract: usdcContract,
-        method: "function balanceOf(address) view returns (uint256)",
-        params: [wallet.address],
-      });
-      
-      const usdcFormatted = (Number(usdcBalance) / 1000000).toFixed(2);
-      const ethFormatted = ethBalance?.displayValue 
-        ? parseFloat(ethBalance.displayValue).toFixed(4) 
-        : "0.0000";
-      
-      return {
-        usdc: usdcFormatted,
-        native: ethFormatted,
-      };
-    } catch (error) {
-      console.error("Error fetching balance:", error);
-      return {
-        usdc: "0.00",
-        native: "0.0000",
-      };
+  const disconnectWallet = async () => {
+    if (!activeWallet) {
+      throw new Error("No wallet connected");
     }
+    if (account) clearConnected(account.address);
+    disconnect(activeWallet);
+    setConnectionError(null);
   };
 
-  const getNFTs = async (): Promise<NFT[]> => {
-    if (!wallet) throw new Error("Wallet not connected");
-    
-    try {
-      const nftContract = getContract({
-        client,
-        chain,
-        address: NFT_CONTRACT_ADDRESS,
-      });
-      
-      const balance = await readContract({
-        contract: nftContract,
-        method: "function balanceOf(address, uint256) view returns (uint256)",
-        params: [wallet.address, BigInt(TOKEN_ID)],
-      });
-      
-      if (Number(balance) > 0) {
-        return [{
-          tokenId: TOKEN_ID.toString(),
-          name: `NFT #${TOKEN_ID} (x${balance.toString()})`,
-          image: "",
-          owner: wallet.address,
-        }];
-      }
-      
-      return [];
-    } catch (error) {
-      console.error("Error fetching NFTs:", error);
-      return [];
+  const accounts = [
+    ...(wallet ? [wallet.address] : []),
+    ...connectedWallets
+      .filter((connected) => connected !== activeWallet)
+      .flatMap((connected) => connected.getAccount()?.address ?? []),
+  ];
+
+  const switchAccount = async (address?: string) => {
+    if (!activeWallet) {
+      throw new Error("No wallet connected");
+    }
+    if (!address) {
+      await requestAccountSwitch(activeWallet);
+      return;
+    }
+
+    const target = connectedWallets.find(
+      (connected) => connected.getAccount()?.address.toLowerCase() === address.toLowerCase(),
+    );
+    if (!target) {
+      throw new Error(`No connected wallet has account ${address}`);
     }
+    await setActiveWallet(target);
   };
 
   return (
     <Web3Context.Provider
       value={{
         wallet,
-        isConnecting: false,
+        connectionStatus,
+        connectionError,
+        deployment,
+        isWrongChain,
+        selectNetwork,
+        switchNetwork,
         connectWallet,
         disconnectWallet,
-        mintNFT,
-        getBalance,
-        getNFTs,
+        accounts,
+        switchAccount,
+        service,
+        transactions: service.transactions,
+        mintNFT: async (quantity, options) => {
+          await ensureChain();
+          return mintNFT(service, quantity, options);
+        },
+        simulateMint: (quantity, options) => simulateMint(service, quantity, options),
+        transferNFT: async (to, tokenId, quantity) => {
+          await ensureChain();
+          return service.transfer(to, tokenId, quantity);
+        },
+        estimateMintCost: (quantity, options) => estimateMintCost(service, quantity, options),
+        getClaimCondition: () => service.getClaimCondition(),
+        getClaimTerms: async (address) => {
+          const claimer = address ?? wallet?.address;
+          if (!claimer) throw new Error("Wallet not connected");
+          return getClaimTerms(service, claimer);
+        },
+        getBalance: async () => {
+          if (!wallet) throw new Error("Wallet not connected");
+          return service.getBalance(wallet.address);
+        },
+        getHoldings: async () => {
+          if (!wallet) throw new Error("Wallet not connected");
+          return service.getHoldings(wallet.address);
+        },
+        getNFTs: async () => {
+          if (!wallet) throw new Error("Wallet not connected");
+          return getNFTs(service, wallet.address);
+        },
+        signMessage: (message) => service.signMessage(message),
+        signTypedData: (data) => service.signTypedData(data),
       }}
     >
       {children}
@@ -1,17 +1,73 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { type TerminalLine, type CommandType } from "@shared/schema";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { type TerminalLine } from "@shared/schema";
 import { useWeb3 } from "@/contexts/Web3Context";
-import { useToast } from "@/hooks/use-toast";
+import {
+  registry,
+  tokenize,
+  parseCommandInput,
+  resolveAddressArgs,
+  formatUsage,
+  UsageError,
+  complete,
+  commonPrefix,
+  formatTransactionLine,
+  createPrompt,
+  promptLabel,
+  parseConfirm,
+  CommandCancelledError,
+  type CompletionSources,
+  type PendingPrompt,
+} from "@/lib/commands";
+import { getAddressBook, syncAddressBook } from "@/lib/addressBook";
+import { recordCommand, recordTransaction } from "@/lib/activity";
+import { getSession } from "@/lib/auth";
+import { loadHistory, saveHistory, appendHistory, expandHistory, searchHistory } from "@/lib/history";
+import { deployments, isConfigured, type Deployment } from "@/lib/deployments";
+
+function welcomeText(deployment: Deployment): string[] {
+  return [
+    "CMD402 NFT Terminal v1.0.0",
+    `${deployment.label} NFT Minting Interface`,
+    `Contract: ${isConfigured(deployment) ? deployment.nftContract : "not configured"}`,
+    "",
+    "Type 'help' for available commands",
+    "",
+  ];
+}
+
+// Bash-style Ctrl+R state: `index` is the matched history entry, `original` the
+// input to restore if the search is cancelled
+interface ReverseSearch {
+  query: string;
+  index: number;
+  original: string;
+}
+
+function createWelcomeLines(deployment: Deployment): TerminalLine[] {
+  const now = Date.now();
+  return welcomeText(deployment).map((text, index) => ({
+    id: `welcome-${index + 1}`,
+    type: "info",
+    text,
+    timestamp: now + index,
+  }));
+}
 
 export function useTerminal() {
-  const { wallet, connectWallet, getBalance, getNFTs, mintNFT, isConnecting } = useWeb3();
-  const { toast } = useToast();
+  const web3 = useWeb3();
   const [lines, setLines] = useState<TerminalLine[]>([]);
   const [currentInput, setCurrentInput] = useState("");
-  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  const [commandHistory, setCommandHistory] = useState<string[]>(() => loadHistory());
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const [reverseSearch, setReverseSearch] = useState<ReverseSearch | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pendingPrompt, setPendingPrompt] = useState<PendingPrompt | null>(null);
+  const [ownedTokenIds, setOwnedTokenIds] = useState<string[]>([]);
+  // Bumped when a claim or transfer confirms, so holdings are looked up again
+  const [holdingsVersion, setHoldingsVersion] = useState(0);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Signal of the running command, aborted by Ctrl+C
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom when new lines are added
   useEffect(() => {
@@ -22,47 +78,58 @@ export function useTerminal() {
 
   // Initialize with welcome message
   useEffect(() => {
-    const welcomeLines: TerminalLine[] = [
-      {
-        id: "welcome-1",
-        type: "info",
-        text: "CMD402 NFT Terminal v1.0.0",
-        timestamp: Date.now(),
-      },
-      {
-        id: "welcome-2",
-        type: "info",
-        text: "Base Chain NFT Minting Interface",
-        timestamp: Date.now() + 1,
-      },
-      {
-        id: "welcome-3",
-        type: "info",
-        text: "Contract: 0x859078e89E58B0Ab0021755B95360f48fBa763dd",
-        timestamp: Date.now() + 2,
-      },
-      {
-        id: "welcome-4",
-        type: "info",
-        text: "",
-        timestamp: Date.now() + 3,
-      },
-      {
-        id: "welcome-5",
-        type: "info",
-        text: "Type 'help' for available commands",
-        timestamp: Date.now() + 4,
-      },
-      {
-        id: "welcome-6",
-        type: "info",
-        text: "",
-        timestamp: Date.now() + 5,
-      },
-    ];
-    setLines(welcomeLines);
+    setLines(createWelcomeLines(web3.deployment));
   }, []);
 
+  // A session left from an earlier visit brings the wallet's saved addresses along
+  useEffect(() => {
+    getSession()
+      .then((session) => session && syncAddressBook())
+      .catch((error) => console.warn("Could not load the address book:", error));
+  }, []);
+
+  // Each wallet gets its own persisted history
+  useEffect(() => {
+    setCommandHistory(loadHistory(web3.wallet?.address));
+    setHistoryIndex(-1);
+  }, [web3.wallet?.address]);
+
+  // Token IDs offered by tab completion for the connected wallet
+  useEffect(() => {
+    if (!web3.wallet?.address) {
+      setOwnedTokenIds([]);
+      return;
+    }
+
+    let cancelled = false;
+    web3.getHoldings()
+      .then((holdings) => {
+        if (!cancelled) setOwnedTokenIds(holdings.map((holding) => holding.tokenId));
+      })
+      .catch(() => {
+        if (!cancelled) setOwnedTokenIds([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [web3.wallet?.address, web3.deployment, holdingsVersion]);
+
+  const completionSources = useMemo<CompletionSources>(() => ({
+    address: () => getAddressBook().map((entry) => entry.name ?? entry.address),
+    tokenId: () => ownedTokenIds,
+    chain: () => Object.keys(deployments),
+  }), [ownedTokenIds]);
+
+  const isHolder = ownedTokenIds.includes(String(web3.deployment.tokenId));
+
+  // Ghost text shown after the cursor: the rest of the first matching candidate
+  const suggestion = useMemo(() => {
+    if (isProcessing || reverseSearch || !currentInput) return "";
+    const { prefix, candidates } = complete(currentInput, registry, completionSources, isHolder);
+    if (!prefix || candidates.length === 0) return "";
+    return candidates[0].slice(prefix.length);
+  }, [currentInput, isProcessing, reverseSearch, completionSources, isHolder]);
+
   const addLine = useCallback((type: TerminalLine["type"], text: string) => {
     const newLine: TerminalLine = {
       id: `line-${Date.now()}-${Math.random()}`,
@@ -73,176 +140,299 @@ export function useTerminal() {
     setLines((prev) => [...prev, newLine]);
   }, []);
 
+  // Replaces the line with the given id, or appends it if it's gone (e.g. after `clear`)
+  const upsertLine = useCallback((id: string, type: TerminalLine["type"], text: string) => {
+    setLines((prev) => {
+      const line: TerminalLine = { id, type, text, timestamp: Date.now() };
+      return prev.some((existing) => existing.id === id)
+        ? prev.map((existing) => (existing.id === id ? { ...line, timestamp: existing.timestamp } : existing))
+        : [...prev, line];
+    });
+  }, []);
+
+  // A question takes over the input line until it's answered or cancelled
+  const prompt = useMemo(() => createPrompt((pending) => {
+    setCurrentInput("");
+    setPendingPrompt(pending);
+  }), []);
+
+  // Keys while a prompt is pending; the answer is echoed into the transcript
+  const handlePromptKey = useCallback((e: React.KeyboardEvent<HTMLInputElement>, pending: PendingPrompt) => {
+    const finish = (answer: string) => {
+      addLine("output", `${promptLabel(pending)} ${answer}`.trimEnd());
+      setPendingPrompt(null);
+      setCurrentInput("");
+    };
+    const hasSelection = e.currentTarget.selectionStart !== e.currentTarget.selectionEnd;
+
+    // Ctrl+C with text selected is still a copy
+    if (e.ctrlKey && e.key === "c" && !hasSelection) {
+      e.preventDefault();
+      finish(`${pending.kind === "password" ? "" : currentInput}^C`);
+      pending.reject(new CommandCancelledError());
+      return;
+    }
+
+    switch (pending.kind) {
+      case "confirm":
+        if (e.key === "Enter") {
+          e.preventDefault();
+          finish(currentInput);
+          pending.resolve(parseConfirm(currentInput, pending.default));
+        }
+        return;
+      case "select": {
+        // The input only captures keys here; nothing is typed into it
+        if (e.ctrlKey || e.metaKey) return;
+        e.preventDefault();
+        const count = pending.options.length;
+        const picked = /^[1-9]$/.test(e.key) && Number(e.key) <= count ? Number(e.key) - 1 : e.key === "Enter" ? pending.selected : -1;
+        if (picked !== -1) {
+          finish(pending.options[picked].label);
+          pending.resolve(pending.options[picked].value);
+        } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+          const step = e.key === "ArrowUp" ? count - 1 : 1;
+          setPendingPrompt({ ...pending, selected: (pending.selected + step) % count });
+        }
+        return;
+      }
+      default:
+        if (e.key === "Enter") {
+          e.preventDefault();
+          const value = currentInput || pending.default || "";
+          const error = pending.validate?.(value);
+          if (error) {
+            setPendingPrompt({ ...pending, error });
+            return;
+          }
+          finish(pending.kind === "password" ? "" : value);
+          pending.resolve(value);
+        }
+    }
+  }, [currentInput, addLine]);
+
+  // Notices for changes made in the wallet itself, e.g. picking another account in the extension
+  const previousWallet = useRef(web3.wallet);
+  useEffect(() => {
+    const previous = previousWallet.current;
+    const current = web3.wallet;
+    previousWallet.current = current;
+    if (!previous || !current) return;
+
+    if (previous.address !== current.address) {
+      addLine("info", `Account changed: ${previous.address} -> ${current.address}`);
+      addLine("output", "");
+    } else if (previous.chainId !== current.chainId) {
+      addLine("info", `Wallet chain changed: ${previous.chainId} -> ${current.chainId}`);
+      addLine("output", "");
+    }
+  }, [web3.wallet?.address, web3.wallet?.chainId, addLine]);
+
+  // Warn whenever the wallet ends up on a chain other than the selected network
+  useEffect(() => {
+    if (!web3.isWrongChain || !web3.wallet) return;
+    addLine("error", `Wallet is on chain ${web3.wallet.chainId}, but the selected network is ${web3.deployment.label} (${web3.deployment.chain.id})`);
+    addLine("info", "Run 'network switch' to switch your wallet, or 'network use <name>' to follow it");
+    addLine("output", "");
+  }, [web3.isWrongChain, web3.wallet?.chainId, web3.deployment, addLine]);
+
+  // Every tracked transaction gets one status line that updates as it settles
+  useEffect(() => {
+    return web3.transactions.subscribe((tx) => {
+      upsertLine(`tx-${tx.hash}`, tx.status === "failed" ? "error" : "info", formatTransactionLine(tx));
+      // Recorded once it settles, not again for each further confirmation
+      if (tx.status === "failed" || (tx.status === "confirmed" && tx.confirmations === 1)) {
+        recordTransaction(tx);
+      }
+      if (tx.status === "confirmed" && tx.confirmations === 1 && tx.kind !== "approve") {
+        setHoldingsVersion((version) => version + 1);
+      }
+    });
+  }, [web3.transactions, upsertLine]);
+
+  // The input line is disabled while a command runs, so Ctrl+C is caught on the
+  // window; a pending prompt handles its own
+  useEffect(() => {
+    if (!isProcessing || pendingPrompt) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (!e.ctrlKey || e.key !== "c" || window.getSelection()?.toString()) return;
+      e.preventDefault();
+      addLine("output", "^C");
+      abortRef.current?.abort(new CommandCancelledError());
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [isProcessing, pendingPrompt, addLine]);
+
   const executeCommand = useCallback(async (input: string) => {
     if (!input.trim()) return;
 
-    const trimmedInput = input.trim();
-    const command = trimmedInput.toLowerCase().split(" ")[0] as CommandType;
+    let trimmedInput = input.trim();
+    try {
+      trimmedInput = expandHistory(trimmedInput, commandHistory);
+    } catch (error) {
+      addLine("command", `> ${trimmedInput}`);
+      addLine("error", error instanceof Error ? error.message : "Unknown error");
+      addLine("output", "");
+      return;
+    }
 
     // Add command to history
-    setCommandHistory((prev) => [...prev, trimmedInput]);
+    const nextHistory = appendHistory(commandHistory, trimmedInput);
+    setCommandHistory(nextHistory);
+    saveHistory(web3.wallet?.address, nextHistory);
     setHistoryIndex(-1);
 
     // Display the command
     addLine("command", `> ${trimmedInput}`);
 
-    setIsProcessing(true);
+    let tokens: string[];
+    try {
+      tokens = tokenize(trimmedInput);
+    } catch (error) {
+      addLine("error", `Parse error: ${error instanceof Error ? error.message : "Unknown error"}`);
+      addLine("output", "");
+      return;
+    }
+
+    const [name = "", ...argv] = tokens;
+    const command = registry.resolve(name);
+    if (!command) {
+      addLine("error", `Command not found: ${name.toLowerCase()}`);
+      addLine("output", "Type 'help' for available commands");
+      addLine("output", "");
+      return;
+    }
 
+    let commandInput: unknown;
     try {
-      switch (command) {
-        case "help":
-          addLine("output", "");
-          addLine("output", "Available commands:");
-          addLine("output", "  connect    - Connect your wallet to Base chain");
-          addLine("output", "  mint       - Mint a new NFT (requires USDC payment)");
-          addLine("output", "  balance    - Check your USDC and ETH balances");
-          addLine("output", "  nfts       - Display your NFT collection");
-          addLine("output", "  clear      - Clear terminal screen");
-          addLine("output", "  help       - Show this help message");
-          addLine("output", "");
-          break;
-
-        case "clear":
-          const welcomeLines: TerminalLine[] = [
-            {
-              id: "welcome-1",
-              type: "info",
-              text: "CMD402 NFT Terminal v1.0.0",
-              timestamp: Date.now(),
-            },
-            {
-              id: "welcome-2",
-              type: "info",
-              text: "Base Chain NFT Minting Interface",
-              timestamp: Date.now() + 1,
-            },
-            {
-              id: "welcome-3",
-              type: "info",
-              text: "Contract: 0x859078e89E58B0Ab0021755B95360f48fBa763dd",
-              timestamp: Date.now() + 2,
-            },
-            {
-              id: "welcome-4",
-              type: "info",
-              text: "",
-              timestamp: Date.now() + 3,
-            },
-            {
-              id: "welcome-5",
-              type: "info",
-              text: "Type 'help' for available commands",
-              timestamp: Date.now() + 4,
-            },
-            {
-              id: "welcome-6",
-              type: "info",
-              text: "",
-              timestamp: Date.now() + 5,
-            },
-          ];
-          setLines(welcomeLines);
-          break;
-
-        case "connect":
-          addLine("output", "");
-          if (wallet?.isConnected) {
-            addLine("info", `Already connected: ${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`);
-            addLine("info", `Chain ID: ${wallet.chainId} (Base)`);
-          } else {
-            addLine("info", "Initializing wallet connection...");
-            addLine("info", "Please approve the connection in your wallet");
-            try {
-              await connectWallet();
-              // Give a small delay for state to update
-              await new Promise(resolve => setTimeout(resolve, 500));
-              addLine("info", "✓ Wallet connected successfully");
-              addLine("info", "✓ Base Chain active");
-            } catch (error) {
-              addLine("error", `Connection failed: ${error instanceof Error ? error.message : "Unknown error"}`);
-            }
-          }
-          addLine("output", "");
-          break;
+      commandInput = parseCommandInput(command, argv);
+    } catch (error) {
+      if (error instanceof UsageError) {
+        addLine("error", `${command.name}: ${error.message}`);
+        addLine("output", `Usage: ${formatUsage(command)}`);
+      } else {
+        addLine("error", `Error: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+      addLine("output", "");
+      return;
+    }
 
-        case "mint":
-          addLine("output", "");
-          if (!wallet?.isConnected) {
-            addLine("error", "Wallet not connected. Run 'connect' first.");
-          } else {
-            addLine("info", "Preparing to mint NFT...");
-            addLine("info", "This requires USDC payment approval");
-            try {
-              const txHash = await mintNFT();
-              addLine("info", `✓ NFT minted successfully`);
-              addLine("info", `Transaction: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`);
-            } catch (error) {
-              addLine("error", `Mint failed: ${error instanceof Error ? error.message : "Unknown error"}`);
-            }
-          }
-          addLine("output", "");
-          break;
+    if (command.requiresWallet && !web3.wallet?.isConnected) {
+      addLine("output", "");
+      addLine("error", "Wallet not connected. Run 'connect' first.");
+      addLine("output", "");
+      return;
+    }
 
-        case "balance":
-          addLine("output", "");
-          if (!wallet?.isConnected) {
-            addLine("error", "Wallet not connected. Run 'connect' first.");
-          } else {
-            addLine("info", "Fetching balances...");
-            try {
-              const balances = await getBalance();
-              addLine("output", "");
-              addLine("info", `USDC Balance: ${balances.usdc} USDC`);
-              addLine("info", `ETH Balance:  ${balances.native} ETH`);
-            } catch (error) {
-              addLine("error", `Failed to fetch balances: ${error instanceof Error ? error.message : "Unknown error"}`);
-            }
-          }
-          addLine("output", "");
-          break;
+    setIsProcessing(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-        case "nfts":
-          addLine("output", "");
-          if (!wallet?.isConnected) {
-            addLine("error", "Wallet not connected. Run 'connect' first.");
-          } else {
-            addLine("info", "Loading your NFT collection...");
-            try {
-              const nfts = await getNFTs();
-              addLine("output", "");
-              if (nfts.length === 0) {
-                addLine("info", "No NFTs found in your wallet");
-              } else {
-                addLine("info", `Found ${nfts.length} NFT${nfts.length > 1 ? "s" : ""}:`);
-                nfts.forEach((nft, index) => {
-                  addLine("output", `  ${index + 1}. ${nft.name} (Token #${nft.tokenId})`);
-                });
-              }
-            } catch (error) {
-              addLine("error", `Failed to load NFTs: ${error instanceof Error ? error.message : "Unknown error"}`);
-            }
-          }
-          addLine("output", "");
-          break;
+    let success = false;
+    try {
+      const { input: resolvedInput, resolved } = await resolveAddressArgs(command, commandInput);
+      resolved.forEach(({ name, address }) => addLine("info", `${name} -> ${address}`));
 
-        default:
-          addLine("error", `Command not found: ${command}`);
-          addLine("output", "Type 'help' for available commands");
-          addLine("output", "");
-      }
+      await command.handler({
+        input: resolvedInput,
+        web3,
+        registry,
+        history: {
+          entries: nextHistory,
+          clear: () => {
+            setCommandHistory([]);
+            saveHistory(web3.wallet?.address, []);
+          },
+        },
+        isHolder,
+        print: addLine,
+        clear: () => setLines(createWelcomeLines(web3.deployment)),
+        prompt,
+        signal: controller.signal,
+      });
+      success = true;
     } catch (error) {
-      addLine("error", `Error: ${error instanceof Error ? error.message : "Unknown error"}`);
+      // Ctrl+C was already echoed
+      if (!(error instanceof CommandCancelledError)) {
+        addLine("error", `Error: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
       addLine("output", "");
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
+      recordCommand({ command: command.name, input: trimmedInput, success });
     }
-  }, [addLine, wallet, connectWallet, mintNFT, getBalance, getNFTs]);
+  }, [addLine, web3, commandHistory, isHolder, prompt]);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (pendingPrompt) {
+        handlePromptKey(e, pendingPrompt);
+        return;
+      }
+
       if (isProcessing) return;
 
-      if (e.key === "Enter") {
+      const cursorAtEnd = e.currentTarget.selectionStart === currentInput.length;
+
+      if (e.ctrlKey && e.key === "r") {
+        e.preventDefault();
+        // Repeated Ctrl+R steps to the next older match
+        const search = reverseSearch ?? { query: "", index: commandHistory.length, original: currentInput };
+        const index = searchHistory(commandHistory, search.query, search.index - 1);
+        if (index !== -1) {
+          setCurrentInput(commandHistory[index]);
+          setReverseSearch({ ...search, index });
+        } else {
+          setReverseSearch(search);
+        }
+        return;
+      }
+
+      if (reverseSearch) {
+        if (e.key === "Escape" || (e.ctrlKey && e.key === "g")) {
+          e.preventDefault();
+          setCurrentInput(reverseSearch.original);
+          setReverseSearch(null);
+          return;
+        }
+
+        if (e.key === "Backspace" || (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey)) {
+          e.preventDefault();
+          const query = e.key === "Backspace" ? reverseSearch.query.slice(0, -1) : reverseSearch.query + e.key;
+          const index = searchHistory(commandHistory, query, e.key === "Backspace" ? commandHistory.length - 1 : reverseSearch.index);
+          if (index !== -1) {
+            setCurrentInput(commandHistory[index]);
+          }
+          setReverseSearch({ ...reverseSearch, query, index: index === -1 ? reverseSearch.index : index });
+          return;
+        }
+
+        // Any other key accepts the match and is handled normally below
+        setReverseSearch(null);
+      }
+
+      if (e.key === "Tab") {
+        e.preventDefault();
+        if (!cursorAtEnd) return;
+
+        const { start, prefix, candidates } = complete(currentInput, registry, completionSources, isHolder);
+        if (candidates.length === 1) {
+          setCurrentInput(`${currentInput.slice(0, start)}${candidates[0]} `);
+        } else if (candidates.length > 1) {
+          const shared = commonPrefix(candidates);
+          if (shared.length > prefix.length) {
+            setCurrentInput(currentInput.slice(0, start) + shared);
+          } else {
+            addLine("command", `> ${currentInput}`);
+            addLine("output", candidates.join("  "));
+          }
+        }
+      } else if (e.key === "ArrowRight" && suggestion && cursorAtEnd) {
+        e.preventDefault();
+        setCurrentInput(currentInput + suggestion);
+      } else if (e.key === "Enter") {
         e.preventDefault();
         if (currentInput.trim()) {
           executeCommand(currentInput);
@@ -269,14 +459,18 @@ export function useTerminal() {
         }
       }
     },
-    [currentInput, commandHistory, historyIndex, isProcessing, executeCommand]
+    [currentInput, commandHistory, historyIndex, reverseSearch, isProcessing, executeCommand, addLine, completionSources, suggestion, isHolder, pendingPrompt, handlePromptKey]
   );
 
   return {
     lines,
     currentInput,
     setCurrentInput,
+    suggestion,
+    reverseSearch,
     isProcessing,
+    // Question a running command is waiting on; it replaces the `>` prompt
+    pendingPrompt,
     scrollRef,
     handleKeyDown,
     addLine,
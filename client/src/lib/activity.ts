@@ -0,0 +1,42 @@
+import {
+  addressBookResponseSchema,
+  type AddressBookResponse,
+  type RecordCommand,
+  type SaveAddressBookEntry,
+  type Transaction,
+} from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { forgetSession, getSignedInAddress } from "@/lib/auth";
+
+// Keeps the server's record of the signed-in wallet's terminal activity. Nothing is
+// sent without a session, and a failed request is only logged, so recording never
+// gets in the way of the terminal.
+function send(method: string, url: string, body: unknown) {
+  if (!getSignedInAddress()) return;
+  apiRequest(method, url, body).catch((error) => {
+    if (error instanceof ApiError && error.status === 401) {
+      forgetSession();
+      return;
+    }
+    console.warn(`Could not record ${method} ${url}:`, error);
+  });
+}
+
+// Called once a transaction settles; later calls for the same hash update its status
+export function recordTransaction(tx: Transaction) {
+  send("POST", "/api/transactions", tx);
+}
+
+export function recordCommand(entry: RecordCommand) {
+  send("POST", "/api/commands", entry);
+}
+
+export function recordAddress(entry: SaveAddressBookEntry) {
+  send("PUT", "/api/address-book", entry);
+}
+
+// The signed-in wallet's saved addresses, most recently used first
+export async function fetchAddressBook(): Promise<AddressBookResponse["items"]> {
+  const res = await apiRequest("GET", "/api/address-book");
+  return addressBookResponseSchema.parse(await res.json()).items;
+}
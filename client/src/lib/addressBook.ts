@@ -0,0 +1,49 @@
+import { fetchAddressBook, recordAddress } from "@/lib/activity";
+
+const STORAGE_KEY = "cmd402:address-book";
+const MAX_ENTRIES = 50;
+
+export interface AddressBookEntry {
+  address: string;
+  // ENS / Basename the address was entered as, if any
+  name?: string;
+}
+
+export function getAddressBook(): AddressBookEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error("Error reading address book:", error);
+    return [];
+  }
+}
+
+function saveAddressBook(entries: AddressBookEntry[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (error) {
+    console.error("Error saving address book:", error);
+  }
+}
+
+// Most recently used first; an address is stored once, keeping its latest name.
+// The signed-in wallet's copy on the server is updated too.
+export function rememberAddress(entry: AddressBookEntry) {
+  const entries = getAddressBook().filter(
+    (existing) => existing.address.toLowerCase() !== entry.address.toLowerCase(),
+  );
+  entries.unshift(entry);
+  saveAddressBook(entries);
+  recordAddress({ address: entry.address, name: entry.name ?? null });
+}
+
+// Adds the addresses the signed-in wallet saved elsewhere, after the ones used here
+export async function syncAddressBook() {
+  const local = getAddressBook();
+  const known = new Set(local.map((entry) => entry.address.toLowerCase()));
+  const remote = (await fetchAddressBook())
+    .filter((entry) => !known.has(entry.address.toLowerCase()))
+    .map((entry) => (entry.name ? { address: entry.address, name: entry.name } : { address: entry.address }));
+  saveAddressBook([...local, ...remote]);
+}
@@ -0,0 +1,18 @@
+import { allowlistProofSchema, type AllowlistProof } from "@shared/schema";
+
+// Fetches the connected wallet's allowlist proof; null when the wallet isn't listed
+export async function fetchAllowlistProof(address: string): Promise<AllowlistProof | null> {
+  const res = await fetch(`/api/allowlist/${address}`, {
+    credentials: "include",
+  });
+
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  return allowlistProofSchema.parse(await res.json());
+}
@@ -0,0 +1,44 @@
+// Darkest to brightest, for light text on the terminal's dark background
+const RAMP = " .:-=+*#%@";
+// Terminal cells are roughly this many times taller than wide
+const CELL_ASPECT = 2.4;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Gateways send CORS headers; without this the canvas can't be read back
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image ${url}`));
+    image.src = url;
+  });
+}
+
+// Renders an image as lines of ASCII art `width` characters wide
+export async function renderAscii(url: string, width: number = 48): Promise<string[]> {
+  const image = await loadImage(url);
+  const height = Math.max(1, Math.round((image.naturalHeight / image.naturalWidth) * width / CELL_ASPECT));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const lines: string[] = [];
+  for (let y = 0; y < height; y++) {
+    let line = "";
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      // Perceived luminance, with transparent pixels treated as background
+      const alpha = data[offset + 3] / 255;
+      const luminance = (0.2126 * data[offset] + 0.7152 * data[offset + 1] + 0.0722 * data[offset + 2]) / 255;
+      line += RAMP[Math.min(RAMP.length - 1, Math.floor(luminance * alpha * RAMP.length))];
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
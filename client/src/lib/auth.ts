@@ -0,0 +1,69 @@
+import { authNonceResponseSchema, authSessionSchema, type AuthSession } from "@shared/schema";
+import { formatSiweMessage } from "@shared/siwe";
+import { apiRequest } from "@/lib/queryClient";
+
+const STATEMENT = "Sign in to the CMD402 terminal.";
+
+// Wallet of the session this tab last saw, so requests that need a session are
+// only sent while there is one
+let sessionAddress: string | null = null;
+
+export function getSignedInAddress(): string | null {
+  return sessionAddress;
+}
+
+// For requests that found the session gone, e.g. expired
+export function forgetSession() {
+  sessionAddress = null;
+}
+
+// Sign-In With Ethereum: fetches a nonce, has the wallet sign an EIP-4361 message
+// for this site, and exchanges it for a session cookie
+export async function signIn(
+  address: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>,
+): Promise<AuthSession> {
+  const { nonce } = authNonceResponseSchema.parse(await (await apiRequest("GET", "/api/auth/nonce")).json());
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await signMessage(message);
+
+  const res = await apiRequest("POST", "/api/auth/verify", { message, signature });
+  const session = authSessionSchema.parse(await res.json());
+  sessionAddress = session.address;
+  return session;
+}
+
+// The signed-in wallet, or null when there is no session
+export async function getSession(): Promise<AuthSession | null> {
+  const res = await fetch("/api/auth/me", {
+    credentials: "include",
+  });
+
+  if (res.status === 401) {
+    sessionAddress = null;
+    return null;
+  }
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const session = authSessionSchema.parse(await res.json());
+  sessionAddress = session.address;
+  return session;
+}
+
+export async function signOut(): Promise<void> {
+  await apiRequest("POST", "/api/auth/logout");
+  sessionAddress = null;
+}
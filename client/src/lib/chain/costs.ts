@@ -0,0 +1,90 @@
+import { NATIVE_TOKEN_ADDRESS } from "thirdweb";
+import {
+  mintCalls,
+  quoteMint,
+  revertContext,
+  toMintError,
+  type ChainService,
+  type GasPrices,
+  type MintOptions,
+  type MintQuote,
+  type PlannedCall,
+} from "./service";
+
+// A claim can't be simulated before its approval is mined (it would revert on the
+// token transfer), so it's costed at about what a Drop claim with an ERC20 payment uses
+export const CLAIM_GAS_ESTIMATE = 200_000n;
+
+export interface CostItem {
+  description: string;
+  gas: bigint;
+  // The gas is a typical figure rather than a simulation
+  approximate: boolean;
+  // gas × (base fee + priority fee)
+  executionFee: bigint;
+  l1Fee: bigint;
+  total: bigint;
+}
+
+// What a sequence of transactions will cost, in wei
+export interface CostEstimate extends GasPrices {
+  items: CostItem[];
+  total: bigint;
+  // Null when no price is available
+  ethUsd: number | null;
+  // The sender's ETH, which has to cover `total`
+  nativeBalance: bigint;
+}
+
+export interface MintCostEstimate {
+  quote: MintQuote;
+  costs: CostEstimate;
+}
+
+// Estimates each transaction at current fees. Transactions are sent one after the
+// other, so a claim following an approval in the same plan gets the typical figure.
+export async function estimateCosts(service: ChainService, calls: PlannedCall[]): Promise<CostEstimate> {
+  if (!service.account) throw new Error("Wallet not connected");
+  const [prices, ethUsd, nativeBalance] = await Promise.all([
+    service.getGasPrices(),
+    service.getNativePriceUsd(),
+    service.getCurrencyBalance(service.account, NATIVE_TOKEN_ADDRESS),
+  ]);
+  const gasPrice = prices.baseFeePerGas + prices.maxPriorityFeePerGas;
+  const awaitsApproval = calls.some((call) => call.kind === "approve");
+
+  const items: CostItem[] = [];
+  for (const call of calls) {
+    const approximate = call.kind === "claim" && awaitsApproval;
+    const [gas, l1Fee] = await Promise.all([
+      call.kind === "approve"
+        ? service.estimateApprove(call.currency, call.amount)
+        : approximate
+          ? CLAIM_GAS_ESTIMATE
+          : service.estimateClaim(call.terms, call.quantity, call.receiver),
+      service.estimateL1Fee(call, prices),
+    ]);
+    const executionFee = gas * gasPrice;
+    items.push({ description: call.description, gas, approximate, executionFee, l1Fee, total: executionFee + l1Fee });
+  }
+
+  return {
+    ...prices,
+    items,
+    total: items.reduce((sum, item) => sum + item.total, 0n),
+    ethUsd,
+    nativeBalance,
+  };
+}
+
+// Quotes a mint and costs the transactions mintNFT would send for it
+export async function estimateMintCost(service: ChainService, quantity: number, options: MintOptions = {}): Promise<MintCostEstimate> {
+  let context = revertContext(service);
+  try {
+    const quote = await quoteMint(service, quantity, options);
+    context = revertContext(service, quote.condition);
+    return { quote, costs: await estimateCosts(service, mintCalls(quote)) };
+  } catch (error) {
+    throw toMintError(error, context);
+  }
+}
@@ -0,0 +1,349 @@
+import { ethers } from "ethers";
+import { NATIVE_TOKEN_ADDRESS } from "thirdweb";
+import { type Account } from "thirdweb/wallets";
+import { type AllowlistProof, type NFTMetadata } from "@shared/schema";
+import { type Deployment } from "@/lib/deployments";
+import { TransactionTracker, type ReceiptSource } from "@/lib/transactions";
+import { createRevertError } from "@/lib/revert";
+import {
+  getClaimTerms,
+  revertContext,
+  MAX_UINT256,
+  ZERO_HASH,
+  type Balance,
+  type ChainService,
+  type ClaimConditionInfo,
+  type ClaimTerms,
+  type CurrencyInfo,
+  type GasPrices,
+  type Holding,
+  type TypedData,
+} from "./service";
+
+// First anvil/hardhat dev account, used when no wallet is connected
+export const FAKE_ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+// anvil's published key for FAKE_ACCOUNT, so messages can be signed without a wallet
+const FAKE_ACCOUNT_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const FAKE_PAYMENT_TOKEN = "0x00000000000000000000000000000000000000aa";
+
+const APPROVE_GAS = 46_000n;
+const CLAIM_GAS = 150_000n;
+// Roughly Base mainnet on a quiet day
+const DEFAULT_GAS_PRICES: GasPrices = { baseFeePerGas: 10_000_000n, maxPriorityFeePerGas: 1_000_000n };
+const DEFAULT_L1_FEE = 20_000_000_000n;
+const DEFAULT_ETH_USD = 3000;
+
+export interface FakeChainOptions {
+  account?: string;
+  // Overrides of the default public claim condition (1 USDC, no limits)
+  condition?: Partial<ClaimConditionInfo>;
+  // Payment token and native balances, keyed by address
+  balances?: Record<string, bigint>;
+  nativeBalances?: Record<string, bigint>;
+  allowlist?: Record<string, AllowlistProof>;
+  // Tokens already held before any claim, as address -> token ID -> quantity
+  holdings?: Record<string, Record<string, bigint>>;
+  // Metadata per token ID; tokens without an entry get a generated name
+  metadata?: Record<string, NFTMetadata>;
+  // Real wallet to sign messages with; FAKE_ACCOUNT signs with its dev key otherwise
+  signer?: Account;
+  gasPrices?: GasPrices;
+  // L1 data fee charged per transaction, in wei
+  l1Fee?: bigint;
+  // null simulates an unavailable price feed
+  ethUsd?: number | null;
+}
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+function toMap(record: Record<string, bigint> = {}): Map<string, bigint> {
+  return new Map(Object.entries(record).map(([address, value]) => [key(address), value]));
+}
+
+// In-memory stand-in for the drop and its payment token. Claims are checked the
+// way Drop.verifyClaim and the token transfer would check them, and fail with the
+// same errors, so the mint flow can be exercised without a wallet or RPC.
+export class FakeChainService implements ChainService {
+  readonly deployment: Deployment;
+  readonly account?: string;
+  readonly transactions: TransactionTracker;
+  private condition: ClaimConditionInfo;
+  private paymentToken: string;
+  private balances: Map<string, bigint>;
+  private nativeBalances: Map<string, bigint>;
+  private allowances: Map<string, bigint>;
+  // Claimed quantity of the drop's token per wallet, and held quantity per wallet and token ID
+  private claimed: Map<string, bigint>;
+  private holdings: Map<string, Map<string, bigint>>;
+  private allowlist: Map<string, AllowlistProof>;
+  private metadata: Record<string, NFTMetadata>;
+  private signer?: Account;
+  private gasPrices: GasPrices;
+  private l1Fee: bigint;
+  private ethUsd: number | null;
+  private blockNumber: bigint;
+  private nonce: number;
+
+  constructor(deployment: Deployment, options: FakeChainOptions = {}) {
+    this.deployment = deployment;
+    this.account = options.account;
+    this.paymentToken = deployment.paymentToken || FAKE_PAYMENT_TOKEN;
+    this.condition = {
+      tokenId: deployment.tokenId,
+      currency: this.paymentToken,
+      currencySymbol: "USDC",
+      currencyDecimals: 6,
+      isNative: false,
+      pricePerToken: 1_000_000n,
+      startTimestamp: 0,
+      maxPerWallet: MAX_UINT256,
+      maxClaimableSupply: MAX_UINT256,
+      supplyClaimed: 0n,
+      merkleRoot: ZERO_HASH,
+      ...options.condition,
+    };
+    this.balances = toMap(options.balances);
+    this.nativeBalances = toMap(options.nativeBalances);
+    this.allowances = new Map();
+    this.claimed = new Map();
+    this.holdings = new Map(
+      Object.entries(options.holdings ?? {}).map(([address, tokens]) => [key(address), new Map(Object.entries(tokens))]),
+    );
+    this.allowlist = new Map(Object.entries(options.allowlist ?? {}).map(([address, proof]) => [key(address), proof]));
+    this.metadata = options.metadata ?? {};
+    this.signer = options.signer;
+    this.gasPrices = options.gasPrices ?? DEFAULT_GAS_PRICES;
+    this.l1Fee = options.l1Fee ?? DEFAULT_L1_FEE;
+    this.ethUsd = options.ethUsd === undefined ? DEFAULT_ETH_USD : options.ethUsd;
+    this.blockNumber = 1n;
+    this.nonce = 0;
+    this.transactions = new TransactionTracker(this.receiptSource(), null);
+  }
+
+  // Every transaction is mined in the next block, and each poll advances the chain
+  private receiptSource(): ReceiptSource {
+    return {
+      waitForReceipt: async () => ({ status: "success", blockNumber: this.blockNumber }),
+      getBlockNumber: async () => ++this.blockNumber,
+      getRevertReason: async () => "Transaction reverted",
+    };
+  }
+
+  private nextHash(): string {
+    this.nonce += 1;
+    this.blockNumber += 1n;
+    return `0x${this.nonce.toString(16).padStart(64, "0")}`;
+  }
+
+  private requireAccount(): string {
+    if (!this.account) throw new Error("Wallet not connected");
+    return this.account;
+  }
+
+  private isNative(currency: string): boolean {
+    return key(currency) === key(NATIVE_TOKEN_ADDRESS);
+  }
+
+  async getClaimCondition(): Promise<ClaimConditionInfo> {
+    return { ...this.condition };
+  }
+
+  async getCurrencyInfo(currency: string): Promise<CurrencyInfo> {
+    if (this.isNative(currency)) {
+      return { currencySymbol: "ETH", currencyDecimals: 18, isNative: true };
+    }
+    return { currencySymbol: "USDC", currencyDecimals: 6, isNative: false };
+  }
+
+  async getAllowlistProof(address: string): Promise<AllowlistProof | null> {
+    return this.allowlist.get(key(address)) ?? null;
+  }
+
+  async getCurrencyBalance(address: string, currency: string): Promise<bigint> {
+    const balances = this.isNative(currency) ? this.nativeBalances : this.balances;
+    return balances.get(key(address)) ?? 0n;
+  }
+
+  async getAllowance(owner: string): Promise<bigint> {
+    return this.allowances.get(key(owner)) ?? 0n;
+  }
+
+  async getBalance(address: string): Promise<Balance> {
+    const usdc = this.balances.get(key(address)) ?? 0n;
+    const native = this.nativeBalances.get(key(address)) ?? 0n;
+    return {
+      usdc: (Number(usdc) / 1e6).toFixed(2),
+      native: (Number(native) / 1e18).toFixed(4),
+    };
+  }
+
+  async getHoldings(address: string): Promise<Holding[]> {
+    const tokens = this.holdings.get(key(address)) ?? new Map<string, bigint>();
+    return Array.from(tokens, ([tokenId, balance]) => ({ tokenId, balance }))
+      .filter((holding) => holding.balance > 0n)
+      .sort((a, b) => Number(BigInt(a.tokenId) - BigInt(b.tokenId)));
+  }
+
+  async getTokenMetadata(tokenId: string): Promise<NFTMetadata> {
+    const exists = tokenId === this.condition.tokenId.toString()
+      || Array.from(this.holdings.values()).some((tokens) => tokens.has(tokenId));
+    if (!exists) {
+      throw new Error(`Token ${tokenId} does not exist`);
+    }
+    return this.metadata[tokenId] ?? {
+      name: `CMD402 Test Token #${tokenId}`,
+      description: "Served by the in-memory chain service",
+      attributes: [{ trait_type: "Network", value: this.deployment.label }],
+    };
+  }
+
+  async approve(currency: string, amount: bigint, description: string): Promise<string> {
+    const owner = this.requireAccount();
+    if (!this.isNative(currency)) {
+      this.allowances.set(key(owner), amount);
+    }
+
+    const hash = this.nextHash();
+    this.transactions.track(hash, "approve", description, this.deployment.chain.id);
+    return hash;
+  }
+
+  // Throws what the contract would revert with; returns the total price otherwise
+  private async verifyClaim(terms: ClaimTerms, quantity: number): Promise<bigint> {
+    const claimer = this.requireAccount();
+    const expected = await getClaimTerms(this, claimer);
+    const amount = BigInt(quantity);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (expected.startTimestamp > now) {
+      throw createRevertError("DropClaimNotStarted", [expected.startTimestamp, now]);
+    }
+    if (key(terms.currency) !== key(expected.currency) || terms.pricePerToken !== expected.pricePerToken) {
+      throw createRevertError("DropClaimInvalidTokenPrice", [expected.currency, expected.pricePerToken, terms.currency, terms.pricePerToken]);
+    }
+
+    const claimedSoFar = (this.claimed.get(key(claimer)) ?? 0n) + amount;
+    if (claimedSoFar > expected.maxPerWallet) {
+      throw createRevertError("DropClaimExceedLimit", [expected.maxPerWallet, claimedSoFar]);
+    }
+    const supplyAfter = this.condition.supplyClaimed + amount;
+    if (supplyAfter > this.condition.maxClaimableSupply) {
+      throw createRevertError("DropClaimExceedMaxSupply", [this.condition.maxClaimableSupply, supplyAfter]);
+    }
+
+    const totalPrice = expected.pricePerToken * amount;
+    const balance = await this.getCurrencyBalance(claimer, expected.currency);
+    if (expected.isNative) {
+      if (balance < totalPrice) throw new Error("insufficient funds for gas * price + value");
+      return totalPrice;
+    }
+
+    const allowance = await this.getAllowance(claimer);
+    const context = revertContext(this, expected);
+    if (allowance < totalPrice) {
+      throw createRevertError("ERC20InsufficientAllowance", [this.deployment.nftContract, allowance, totalPrice], context);
+    }
+    if (balance < totalPrice) {
+      throw createRevertError("ERC20InsufficientBalance", [claimer, balance, totalPrice], context);
+    }
+    return totalPrice;
+  }
+
+  async claim(terms: ClaimTerms, quantity: number, receiver: string): Promise<string> {
+    const totalPrice = await this.verifyClaim(terms, quantity);
+    const claimer = key(this.requireAccount());
+    const amount = BigInt(quantity);
+
+    const balances = terms.isNative ? this.nativeBalances : this.balances;
+    balances.set(claimer, (balances.get(claimer) ?? 0n) - totalPrice);
+    if (!terms.isNative) {
+      this.allowances.set(claimer, (this.allowances.get(claimer) ?? 0n) - totalPrice);
+    }
+    this.claimed.set(claimer, (this.claimed.get(claimer) ?? 0n) + amount);
+    const tokens = this.holdings.get(key(receiver)) ?? new Map<string, bigint>();
+    const tokenId = terms.tokenId.toString();
+    tokens.set(tokenId, (tokens.get(tokenId) ?? 0n) + amount);
+    this.holdings.set(key(receiver), tokens);
+    this.condition.supplyClaimed += amount;
+
+    const hash = this.nextHash();
+    this.transactions.track(hash, "claim", `Claim ${quantity} NFT${quantity > 1 ? "s" : ""}`, this.deployment.chain.id);
+    return hash;
+  }
+
+  async transfer(to: string, tokenId: string, quantity: bigint): Promise<string> {
+    const from = key(this.requireAccount());
+    const sent = this.holdings.get(from) ?? new Map<string, bigint>();
+    const held = sent.get(tokenId) ?? 0n;
+    if (held < quantity) {
+      throw new Error("ERC1155: insufficient balance for transfer");
+    }
+    sent.set(tokenId, held - quantity);
+    this.holdings.set(from, sent);
+    const received = this.holdings.get(key(to)) ?? new Map<string, bigint>();
+    received.set(tokenId, (received.get(tokenId) ?? 0n) + quantity);
+    this.holdings.set(key(to), received);
+
+    const hash = this.nextHash();
+    this.transactions.track(hash, "transfer", `Transfer ${quantity} of token #${tokenId}`, this.deployment.chain.id);
+    return hash;
+  }
+
+  async estimateApprove(): Promise<bigint> {
+    this.requireAccount();
+    return APPROVE_GAS;
+  }
+
+  async estimateClaim(terms: ClaimTerms, quantity: number): Promise<bigint> {
+    await this.verifyClaim(terms, quantity);
+    return CLAIM_GAS;
+  }
+
+  async getGasPrices(): Promise<GasPrices> {
+    return this.gasPrices;
+  }
+
+  async estimateL1Fee(): Promise<bigint> {
+    return this.l1Fee;
+  }
+
+  async getNativePriceUsd(): Promise<number | null> {
+    return this.ethUsd;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const account = this.requireAccount();
+    if (this.signer) {
+      return this.signer.signMessage({ message });
+    }
+    if (key(account) !== key(FAKE_ACCOUNT)) {
+      throw new Error(`No signing key for ${account}`);
+    }
+    return new ethers.Wallet(FAKE_ACCOUNT_KEY).signMessage(message);
+  }
+
+  async signTypedData(data: TypedData): Promise<string> {
+    const account = this.requireAccount();
+    if (this.signer) {
+      return this.signer.signTypedData(data as Parameters<Account["signTypedData"]>[0]);
+    }
+    if (key(account) !== key(FAKE_ACCOUNT)) {
+      throw new Error(`No signing key for ${account}`);
+    }
+    return new ethers.Wallet(FAKE_ACCOUNT_KEY).signTypedData(data.domain, data.types, data.message);
+  }
+}
+
+// Offline service for development: the connected wallet, or the first dev account,
+// starts with 100 USDC and 1 ETH
+export function createFakeService(deployment: Deployment, account?: Account): ChainService {
+  const address = account?.address ?? FAKE_ACCOUNT;
+  return new FakeChainService(deployment, {
+    account: address,
+    signer: account,
+    balances: { [address]: 100_000_000n },
+    nativeBalances: { [address]: 10n ** 18n },
+  });
+}
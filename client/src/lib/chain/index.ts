@@ -0,0 +1,33 @@
+export {
+  getClaimTerms,
+  getNFTs,
+  quoteMint,
+  mintNFT,
+  simulateMint,
+  mintCalls,
+  toMintError,
+  revertContext,
+  ZERO_ADDRESS,
+  ZERO_HASH,
+  MAX_UINT256,
+} from "./service";
+export type {
+  ChainService,
+  ChainServiceFactory,
+  Balance,
+  Holding,
+  MintOptions,
+  CurrencyInfo,
+  ClaimConditionInfo,
+  ClaimTerms,
+  MintQuote,
+  MintSimulation,
+  TypedData,
+  GasPrices,
+  PlannedCall,
+} from "./service";
+export { estimateCosts, estimateMintCost, CLAIM_GAS_ESTIMATE } from "./costs";
+export type { CostItem, CostEstimate, MintCostEstimate } from "./costs";
+export { ThirdwebChainService, createThirdwebService } from "./thirdweb";
+export { FakeChainService, createFakeService, FAKE_ACCOUNT } from "./fake";
+export type { FakeChainOptions } from "./fake";
@@ -0,0 +1,348 @@
+import { toTokens } from "thirdweb";
+import { type Account } from "thirdweb/wallets";
+import { type AllowlistProof, type NFT, type NFTMetadata } from "@shared/schema";
+import { type Deployment } from "@/lib/deployments";
+import { type TransactionTracker } from "@/lib/transactions";
+import { toRevertError, type RevertContext } from "@/lib/revert";
+
+export interface Balance {
+  usdc: string;
+  native: string;
+}
+
+// Quantity of one token ID held by a wallet
+export interface Holding {
+  tokenId: string;
+  balance: bigint;
+}
+
+export interface MintOptions {
+  // Receiver of the minted tokens; defaults to the connected wallet
+  to?: string;
+  // Stops waiting for the approval to confirm
+  signal?: AbortSignal;
+}
+
+export interface CurrencyInfo {
+  currencySymbol: string;
+  currencyDecimals: number;
+  isNative: boolean;
+}
+
+// Active claim condition of the drop, as read from the contract
+export interface ClaimConditionInfo extends CurrencyInfo {
+  tokenId: number;
+  currency: string;
+  pricePerToken: bigint;
+  // Unix seconds
+  startTimestamp: number;
+  // 0 means no per-wallet limit beyond the allowlist
+  maxPerWallet: bigint;
+  maxClaimableSupply: bigint;
+  supplyClaimed: bigint;
+  merkleRoot: string;
+}
+
+// The claim condition with a wallet's allowlist overrides applied
+export interface ClaimTerms extends ClaimConditionInfo {
+  onAllowlist: boolean;
+  // Raw proof values passed to `claim`; empty proof for public claims
+  allowlistProof: {
+    proof: string[];
+    quantityLimitPerWallet: bigint;
+    pricePerToken: bigint;
+    currency: string;
+  };
+}
+
+// What a mint would pay and send, checked against the payer's funds
+export interface MintQuote {
+  receiver: string;
+  quantity: number;
+  condition: ClaimTerms;
+  totalPrice: bigint;
+  // Payer's balance in the claim currency
+  balance: bigint;
+  allowance: bigint;
+  needsApproval: boolean;
+}
+
+// Result of a dry-run mint: what would be paid and sent, without sending it
+export interface MintSimulation extends MintQuote {
+  approveGas?: bigint;
+  claimGas?: bigint;
+}
+
+// Fee market of the chain right now, in wei per gas
+export interface GasPrices {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// One transaction of a sequence a command intends to send, for cost estimation
+export type PlannedCall =
+  | { kind: "approve"; description: string; currency: string; amount: bigint }
+  | { kind: "claim"; description: string; terms: ClaimTerms; quantity: number; receiver: string };
+
+// EIP-712 typed data as signed with eth_signTypedData_v4, without the EIP712Domain type
+export interface TypedData {
+  domain: {
+    name?: string;
+    version?: string;
+    chainId?: number;
+    verifyingContract?: string;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// Everything the app reads from and sends to the drop on one deployment.
+// Writes are signed by `account`; implementations throw if there is none.
+export interface ChainService {
+  readonly deployment: Deployment;
+  readonly account?: string;
+  readonly transactions: TransactionTracker;
+
+  getClaimCondition(): Promise<ClaimConditionInfo>;
+  getCurrencyInfo(currency: string): Promise<CurrencyInfo>;
+  // Null when the address isn't on the allowlist
+  getAllowlistProof(address: string): Promise<AllowlistProof | null>;
+  // Balance in a claim currency, native or ERC20
+  getCurrencyBalance(address: string, currency: string): Promise<bigint>;
+  // How much of an ERC20 currency the drop contract may spend for `owner`
+  getAllowance(owner: string, currency: string): Promise<bigint>;
+  getBalance(address: string): Promise<Balance>;
+  // Token IDs of the drop the address holds, with quantities
+  getHoldings(address: string): Promise<Holding[]>;
+  // Validated metadata from the token's `uri`
+  getTokenMetadata(tokenId: string): Promise<NFTMetadata>;
+
+  // Each resolves with the tracked transaction hash once submitted
+  approve(currency: string, amount: bigint, description: string): Promise<string>;
+  claim(terms: ClaimTerms, quantity: number, receiver: string): Promise<string>;
+  // Sends `quantity` of a drop token from the connected wallet
+  transfer(to: string, tokenId: string, quantity: bigint): Promise<string>;
+  estimateApprove(currency: string, amount: bigint): Promise<bigint>;
+  // Simulates the claim first, so this throws if it would revert
+  estimateClaim(terms: ClaimTerms, quantity: number, receiver: string): Promise<bigint>;
+  getGasPrices(): Promise<GasPrices>;
+  // What an OP stack chain like Base charges for posting the transaction to L1, in wei;
+  // 0 elsewhere. `prices` are the fees it would be sent with, from getGasPrices
+  estimateL1Fee(call: PlannedCall, prices: GasPrices): Promise<bigint>;
+  // Null when no price is available, e.g. on a local chain
+  getNativePriceUsd(): Promise<number | null>;
+
+  // EIP-191 personal_sign with the connected account
+  signMessage(message: string): Promise<string>;
+  // EIP-712 signature with the connected account, e.g. for an EIP-3009 authorization
+  signTypedData(data: TypedData): Promise<string>;
+}
+
+// Builds the service for the selected deployment and connected wallet account
+export type ChainServiceFactory = (deployment: Deployment, account?: Account) => ChainService;
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const ZERO_HASH = `0x${"0".repeat(64)}`;
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+// The claim condition as it applies to one wallet. In allowlist phases a listed
+// wallet's proof may override the price, currency and per-wallet limit.
+export async function getClaimTerms(service: ChainService, address: string): Promise<ClaimTerms> {
+  const condition = await service.getClaimCondition();
+  const publicTerms: ClaimTerms = {
+    ...condition,
+    onAllowlist: false,
+    allowlistProof: {
+      proof: [],
+      quantityLimitPerWallet: 0n,
+      pricePerToken: condition.pricePerToken,
+      currency: condition.currency,
+    },
+  };
+
+  if (condition.merkleRoot === ZERO_HASH) {
+    return publicTerms;
+  }
+
+  // A proof built for another snapshot would not verify against this phase's root
+  const proof = await service.getAllowlistProof(address);
+  if (!proof || proof.merkleRoot.toLowerCase() !== condition.merkleRoot.toLowerCase()) {
+    return publicTerms;
+  }
+
+  const proofPrice = BigInt(proof.pricePerToken);
+  const proofLimit = BigInt(proof.quantityLimitPerWallet);
+  // Mirrors Drop.verifyClaim: max uint256 keeps the condition's price, and the
+  // currency is only overridden together with the price
+  const overridesPrice = proofPrice !== MAX_UINT256;
+  const overridesCurrency = overridesPrice && proof.currency.toLowerCase() !== ZERO_ADDRESS;
+  const currency = overridesCurrency ? proof.currency : condition.currency;
+
+  return {
+    ...condition,
+    pricePerToken: overridesPrice ? proofPrice : condition.pricePerToken,
+    currency,
+    ...(overridesCurrency ? await service.getCurrencyInfo(currency) : {}),
+    maxPerWallet: proofLimit !== 0n ? proofLimit : condition.maxPerWallet,
+    onAllowlist: true,
+    allowlistProof: {
+      proof: proof.proof,
+      quantityLimitPerWallet: proofLimit,
+      pricePerToken: proofPrice,
+      currency: proof.currency,
+    },
+  };
+}
+
+// Holdings with their metadata; a token whose metadata can't be loaded is still
+// listed, under a placeholder name
+export async function getNFTs(service: ChainService, address: string): Promise<NFT[]> {
+  const holdings = await service.getHoldings(address);
+  return Promise.all(
+    holdings.map(async ({ tokenId, balance }) => {
+      const base = { tokenId, owner: address, balance: balance.toString() };
+      try {
+        return { ...base, ...(await service.getTokenMetadata(tokenId)) };
+      } catch {
+        return { ...base, name: `NFT #${tokenId}` };
+      }
+    }),
+  );
+}
+
+function requireAccount(service: ChainService): string {
+  if (!service.account) throw new Error("Wallet not connected");
+  return service.account;
+}
+
+function checkQuantity(quantity: number) {
+  if (quantity < 1 || quantity > 100) {
+    throw new Error("Quantity must be between 1 and 100");
+  }
+}
+
+// Reads the claim terms for the connected wallet and checks it can cover the mint
+export async function quoteMint(service: ChainService, quantity: number, options: MintOptions = {}): Promise<MintQuote> {
+  const payer = requireAccount(service);
+  const condition = await getClaimTerms(service, payer);
+  const totalPrice = condition.pricePerToken * BigInt(quantity);
+  const balance = await service.getCurrencyBalance(payer, condition.currency);
+
+  if (balance < totalPrice) {
+    throw new Error(`Insufficient ${condition.currencySymbol} balance. Need ${toTokens(totalPrice, condition.currencyDecimals)} ${condition.currencySymbol}, have ${toTokens(balance, condition.currencyDecimals)} ${condition.currencySymbol}`);
+  }
+
+  // Native currency is sent as value, so there is nothing to approve
+  const allowance = condition.isNative ? totalPrice : await service.getAllowance(payer, condition.currency);
+
+  return {
+    receiver: options.to ?? payer,
+    quantity,
+    condition,
+    totalPrice,
+    balance,
+    allowance,
+    needsApproval: allowance < totalPrice,
+  };
+}
+
+// The transactions mintNFT sends for a quote, in order
+export function mintCalls(quote: MintQuote): PlannedCall[] {
+  const { condition, totalPrice } = quote;
+  const calls: PlannedCall[] = [];
+  if (quote.needsApproval) {
+    calls.push({
+      kind: "approve",
+      description: `Approve ${toTokens(totalPrice, condition.currencyDecimals)} ${condition.currencySymbol}`,
+      currency: condition.currency,
+      amount: totalPrice,
+    });
+  }
+  calls.push({
+    kind: "claim",
+    description: `Claim ${quote.quantity} NFT${quote.quantity > 1 ? "s" : ""}`,
+    terms: condition,
+    quantity: quote.quantity,
+    receiver: quote.receiver,
+  });
+  return calls;
+}
+
+// Lets revert messages name the network and, once the claim terms are known, show
+// amounts in the claim currency
+export function revertContext(service: ChainService, currency?: CurrencyInfo): RevertContext {
+  return {
+    network: service.deployment.label,
+    currencySymbol: currency?.currencySymbol,
+    currencyDecimals: currency?.currencyDecimals,
+  };
+}
+
+// Approves the payment if needed, waits for the approval, then submits the claim.
+// Resolves with the claim transaction hash; follow it via service.transactions.
+export async function mintNFT(service: ChainService, quantity: number, options: MintOptions = {}): Promise<string> {
+  requireAccount(service);
+  checkQuantity(quantity);
+
+  let context = revertContext(service);
+  try {
+    const quote = await quoteMint(service, quantity, options);
+    const { condition, totalPrice } = quote;
+    context = revertContext(service, condition);
+
+    if (quote.needsApproval) {
+      const approveHash = await service.approve(
+        condition.currency,
+        totalPrice,
+        `Approve ${toTokens(totalPrice, condition.currencyDecimals)} ${condition.currencySymbol}`,
+      );
+      const approval = await service.transactions.wait(approveHash, options.signal);
+      if (approval.status === "failed") {
+        throw new Error(`Approval failed: ${approval.error}`);
+      }
+    }
+
+    return await service.claim(condition, quantity, quote.receiver);
+  } catch (error) {
+    throw toMintError(error, context);
+  }
+}
+
+export async function simulateMint(service: ChainService, quantity: number, options: MintOptions = {}): Promise<MintSimulation> {
+  requireAccount(service);
+  checkQuantity(quantity);
+
+  let context = revertContext(service);
+  try {
+    const quote = await quoteMint(service, quantity, options);
+    context = revertContext(service, quote.condition);
+
+    // Without the allowance in place the claim would revert on the token transfer,
+    // so it can only be simulated once approval has been sent
+    if (quote.needsApproval) {
+      return { ...quote, approveGas: await service.estimateApprove(quote.condition.currency, quote.totalPrice) };
+    }
+    return { ...quote, claimGas: await service.estimateClaim(quote.condition, quantity, quote.receiver) };
+  } catch (error) {
+    throw toMintError(error, context);
+  }
+}
+
+// Maps wallet and contract errors to messages users can act on
+export function toMintError(error: unknown, context: RevertContext = {}): Error {
+  const revertError = toRevertError(error, context);
+  if (revertError) {
+    return revertError;
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  if (message.includes("rejected") || message.includes("denied")) {
+    return new Error("Transaction rejected by user");
+  } else if (message.includes("insufficient funds")) {
+    return new Error("Insufficient ETH for gas");
+  }
+
+  // Callers add their own "Mint failed" context
+  return error instanceof Error ? error : new Error(message || "Unknown error");
+}
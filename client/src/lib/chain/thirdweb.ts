@@ -0,0 +1,362 @@
+import {
+  getContract,
+  readContract,
+  prepareContractCall,
+  sendTransaction,
+  simulateTransaction,
+  estimateGas,
+  getRpcClient,
+  eth_getBalance,
+  eth_getBlockByNumber,
+  eth_maxPriorityFeePerGas,
+  encode,
+  serializeTransaction,
+  toTokens,
+  NATIVE_TOKEN_ADDRESS,
+} from "thirdweb";
+import { getActiveClaimCondition } from "thirdweb/extensions/erc1155";
+import { convertCryptoToFiat } from "thirdweb/pay";
+import { type Account } from "thirdweb/wallets";
+import { type AllowlistProof, type NFTMetadata } from "@shared/schema";
+import { client } from "@/lib/thirdweb";
+import { type Deployment } from "@/lib/deployments";
+import { transactionTracker, type TransactionTracker } from "@/lib/transactions";
+import { fetchAllowlistProof } from "@/lib/allowlist";
+import { fetchNftMetadata } from "@/lib/metadata";
+import { isCallRejected } from "@/lib/revert";
+import {
+  type Balance,
+  type ChainService,
+  type ClaimConditionInfo,
+  type ClaimTerms,
+  type CurrencyInfo,
+  type GasPrices,
+  type Holding,
+  type PlannedCall,
+  type TypedData,
+} from "./service";
+
+// Token IDs per balanceOfBatch call, to stay under RPC calldata and gas limits
+const BALANCE_BATCH_SIZE = 200;
+
+// OP stack chains price their L1 data fee through this predeploy
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F";
+const OP_STACK_CHAIN_IDS = [8453, 84532];
+
+function isNativeCurrency(currency: string): boolean {
+  return currency.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+}
+
+// Reads through thirdweb's RPC and signs with the connected wallet
+export class ThirdwebChainService implements ChainService {
+  readonly deployment: Deployment;
+  readonly transactions: TransactionTracker;
+  private signer?: Account;
+
+  constructor(deployment: Deployment, signer?: Account) {
+    this.deployment = deployment;
+    this.signer = signer;
+    this.transactions = transactionTracker;
+  }
+
+  get account(): string | undefined {
+    return this.signer?.address;
+  }
+
+  // Reads and writes go to the selected deployment, which may not have a contract yet
+  private get nftContract() {
+    if (!this.deployment.nftContract) {
+      throw new Error(`No NFT contract configured for ${this.deployment.label}`);
+    }
+    return getContract({
+      client,
+      chain: this.deployment.chain,
+      address: this.deployment.nftContract,
+    });
+  }
+
+  private currencyContract(currency: string) {
+    return getContract({
+      client,
+      chain: this.deployment.chain,
+      address: currency,
+    });
+  }
+
+  private requireSigner(): Account {
+    if (!this.signer) throw new Error("Wallet not connected");
+    return this.signer;
+  }
+
+  // Reads the active claim condition for the drop's token, plus the metadata of
+  // its payment currency so amounts can be displayed
+  async getClaimCondition(): Promise<ClaimConditionInfo> {
+    const { tokenId } = this.deployment;
+    const condition = await getActiveClaimCondition({
+      contract: this.nftContract,
+      tokenId: BigInt(tokenId),
+    });
+
+    return {
+      tokenId,
+      currency: condition.currency,
+      ...(await this.getCurrencyInfo(condition.currency)),
+      pricePerToken: condition.pricePerToken,
+      startTimestamp: Number(condition.startTimestamp),
+      maxPerWallet: condition.quantityLimitPerWallet,
+      maxClaimableSupply: condition.maxClaimableSupply,
+      supplyClaimed: condition.supplyClaimed,
+      merkleRoot: condition.merkleRoot,
+    };
+  }
+
+  // Symbol and decimals of a payment currency; the native token has no contract to ask
+  async getCurrencyInfo(currency: string): Promise<CurrencyInfo> {
+    const { chain } = this.deployment;
+    if (isNativeCurrency(currency)) {
+      return {
+        currencySymbol: chain.nativeCurrency?.symbol ?? "ETH",
+        currencyDecimals: chain.nativeCurrency?.decimals ?? 18,
+        isNative: true,
+      };
+    }
+
+    const contract = this.currencyContract(currency);
+    const [currencySymbol, currencyDecimals] = await Promise.all([
+      readContract({
+        contract,
+        method: "function symbol() view returns (string)",
+        params: [],
+      }),
+      readContract({
+        contract,
+        method: "function decimals() view returns (uint8)",
+        params: [],
+      }),
+    ]);
+    return { currencySymbol, currencyDecimals, isNative: false };
+  }
+
+  getAllowlistProof(address: string): Promise<AllowlistProof | null> {
+    return fetchAllowlistProof(address);
+  }
+
+  async getCurrencyBalance(address: string, currency: string): Promise<bigint> {
+    if (isNativeCurrency(currency)) {
+      return eth_getBalance(getRpcClient({ client, chain: this.deployment.chain }), { address });
+    }
+    return readContract({
+      contract: this.currencyContract(currency),
+      method: "function balanceOf(address) view returns (uint256)",
+      params: [address],
+    });
+  }
+
+  async getAllowance(owner: string, currency: string): Promise<bigint> {
+    return readContract({
+      contract: this.currencyContract(currency),
+      method: "function allowance(address owner, address spender) view returns (uint256)",
+      params: [owner, this.nftContract.address],
+    });
+  }
+
+  async getBalance(address: string): Promise<Balance> {
+    if (!this.deployment.paymentToken) {
+      throw new Error(`No payment token configured for ${this.deployment.label}`);
+    }
+
+    const [usdcBalance, ethBalance, payment] = await Promise.all([
+      this.getCurrencyBalance(address, this.deployment.paymentToken),
+      this.getCurrencyBalance(address, NATIVE_TOKEN_ADDRESS),
+      this.getCurrencyInfo(this.deployment.paymentToken),
+    ]);
+
+    return {
+      usdc: Number(toTokens(usdcBalance, payment.currencyDecimals)).toFixed(2),
+      native: Number(toTokens(ethBalance, 18)).toFixed(4),
+    };
+  }
+
+  // Every token ID below `nextTokenIdToMint`, checked with `balanceOfBatch` in
+  // chunks so later editions show up without a contract-specific list
+  async getHoldings(address: string): Promise<Holding[]> {
+    if (!this.deployment.nftContract) return [];
+
+    const tokenIds = await this.getTokenIds();
+    const holdings: Holding[] = [];
+    for (let start = 0; start < tokenIds.length; start += BALANCE_BATCH_SIZE) {
+      const ids = tokenIds.slice(start, start + BALANCE_BATCH_SIZE);
+      const balances = await readContract({
+        contract: this.nftContract,
+        method: "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+        params: [ids.map(() => address), ids],
+      });
+      balances.forEach((balance, index) => {
+        if (balance > 0n) holdings.push({ tokenId: ids[index].toString(), balance });
+      });
+    }
+    return holdings;
+  }
+
+  // Contracts without `nextTokenIdToMint` only expose the configured drop token;
+  // a read that fails for any other reason fails the lookup
+  private async getTokenIds(): Promise<bigint[]> {
+    const next = await readContract({
+      contract: this.nftContract,
+      method: "function nextTokenIdToMint() view returns (uint256)",
+      params: [],
+    }).catch((error) => {
+      if (isCallRejected(error)) return null;
+      throw error;
+    });
+
+    if (next === null) return [BigInt(this.deployment.tokenId)];
+    return Array.from({ length: Number(next) }, (_, id) => BigInt(id));
+  }
+
+  async getTokenMetadata(tokenId: string): Promise<NFTMetadata> {
+    const uri = await readContract({
+      contract: this.nftContract,
+      method: "function uri(uint256 tokenId) view returns (string)",
+      params: [BigInt(tokenId)],
+    });
+    return fetchNftMetadata(uri, tokenId);
+  }
+
+  private approveTransaction(currency: string, amount: bigint) {
+    return prepareContractCall({
+      contract: this.currencyContract(currency),
+      method: "function approve(address spender, uint256 amount) returns (bool)",
+      params: [this.nftContract.address, amount],
+    });
+  }
+
+  private claimTransaction(terms: ClaimTerms, quantity: number, receiver: string) {
+    return prepareContractCall({
+      contract: this.nftContract,
+      method: "function claim(address receiver, uint256 tokenId, uint256 quantity, address currency, uint256 pricePerToken, (bytes32[],uint256,uint256,address) allowlistProof, bytes data) payable",
+      params: [
+        receiver,                                              // receiver
+        BigInt(terms.tokenId),                                 // tokenId
+        BigInt(quantity),                                      // quantity
+        terms.currency,                                        // currency
+        terms.pricePerToken,                                   // pricePerToken
+        [                                                      // allowlistProof
+          terms.allowlistProof.proof as `0x${string}`[],
+          terms.allowlistProof.quantityLimitPerWallet,
+          terms.allowlistProof.pricePerToken,
+          terms.allowlistProof.currency,
+        ],
+        "0x",                                                  // data
+      ],
+      value: terms.isNative ? terms.pricePerToken * BigInt(quantity) : 0n,
+    });
+  }
+
+  async approve(currency: string, amount: bigint, description: string): Promise<string> {
+    const { transactionHash } = await sendTransaction({
+      transaction: this.approveTransaction(currency, amount),
+      account: this.requireSigner(),
+    });
+    this.transactions.track(transactionHash, "approve", description, this.deployment.chain.id);
+    return transactionHash;
+  }
+
+  async claim(terms: ClaimTerms, quantity: number, receiver: string): Promise<string> {
+    const { transactionHash } = await sendTransaction({
+      transaction: this.claimTransaction(terms, quantity, receiver),
+      account: this.requireSigner(),
+    });
+    this.transactions.track(transactionHash, "claim", `Claim ${quantity} NFT${quantity > 1 ? "s" : ""}`, this.deployment.chain.id);
+    return transactionHash;
+  }
+
+  async transfer(to: string, tokenId: string, quantity: bigint): Promise<string> {
+    const account = this.requireSigner();
+    const { transactionHash } = await sendTransaction({
+      transaction: prepareContractCall({
+        contract: this.nftContract,
+        method: "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)",
+        params: [account.address, to, BigInt(tokenId), quantity, "0x"],
+      }),
+      account,
+    });
+    this.transactions.track(transactionHash, "transfer", `Transfer ${quantity} of token #${tokenId}`, this.deployment.chain.id);
+    return transactionHash;
+  }
+
+  estimateApprove(currency: string, amount: bigint): Promise<bigint> {
+    return estimateGas({ transaction: this.approveTransaction(currency, amount), account: this.requireSigner() });
+  }
+
+  async estimateClaim(terms: ClaimTerms, quantity: number, receiver: string): Promise<bigint> {
+    const account = this.requireSigner();
+    const transaction = this.claimTransaction(terms, quantity, receiver);
+    await simulateTransaction({ transaction, account });
+    return estimateGas({ transaction, account });
+  }
+
+  async getGasPrices(): Promise<GasPrices> {
+    const rpc = getRpcClient({ client, chain: this.deployment.chain });
+    const [block, maxPriorityFeePerGas] = await Promise.all([
+      eth_getBlockByNumber(rpc, { blockTag: "latest" }),
+      eth_maxPriorityFeePerGas(rpc),
+    ]);
+    return { baseFeePerGas: block.baseFeePerGas ?? 0n, maxPriorityFeePerGas };
+  }
+
+  async estimateL1Fee(call: PlannedCall, prices: GasPrices): Promise<bigint> {
+    const chainId = this.deployment.chain.id;
+    if (!OP_STACK_CHAIN_IDS.includes(chainId)) return 0n;
+
+    const data = await (call.kind === "approve"
+      ? encode(this.approveTransaction(call.currency, call.amount))
+      : encode(this.claimTransaction(call.terms, call.quantity, call.receiver)));
+    // The oracle prices the unsigned transaction; the nonce only changes its size by a byte or two
+    const serialized = serializeTransaction({
+      transaction: {
+        type: "eip1559",
+        chainId,
+        nonce: 0,
+        to: call.kind === "approve" ? call.currency : this.nftContract.address,
+        data,
+        value: call.kind === "claim" && call.terms.isNative ? call.terms.pricePerToken * BigInt(call.quantity) : 0n,
+        maxFeePerGas: prices.baseFeePerGas * 2n + prices.maxPriorityFeePerGas,
+        maxPriorityFeePerGas: prices.maxPriorityFeePerGas,
+      },
+    });
+    return readContract({
+      contract: getContract({ client, chain: this.deployment.chain, address: GAS_PRICE_ORACLE }),
+      method: "function getL1Fee(bytes _data) view returns (uint256)",
+      params: [serialized],
+    });
+  }
+
+  async getNativePriceUsd(): Promise<number | null> {
+    try {
+      const { result } = await convertCryptoToFiat({
+        client,
+        chain: this.deployment.chain,
+        fromTokenAddress: NATIVE_TOKEN_ADDRESS,
+        fromAmount: 1,
+        to: "USD",
+      });
+      return result;
+    } catch (error) {
+      console.error("Error fetching ETH price:", error);
+      return null;
+    }
+  }
+
+  signMessage(message: string): Promise<string> {
+    return this.requireSigner().signMessage({ message });
+  }
+
+  signTypedData(data: TypedData): Promise<string> {
+    return this.requireSigner().signTypedData(data as Parameters<Account["signTypedData"]>[0]);
+  }
+}
+
+export function createThirdwebService(deployment: Deployment, account?: Account): ChainService {
+  return new ThirdwebChainService(deployment, account);
+}
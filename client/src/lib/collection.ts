@@ -0,0 +1,35 @@
+import { type z } from "zod";
+import {
+  collectionStatsSchema,
+  holdersResponseSchema,
+  type CollectionStats,
+  type HoldersQuery,
+  type HoldersResponse,
+} from "@shared/schema";
+
+async function fetchParsed<T>(url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const res = await fetch(url, {
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  return schema.parse(await res.json());
+}
+
+export function fetchCollectionStats(tokenId?: string): Promise<CollectionStats> {
+  const params = new URLSearchParams(tokenId === undefined ? {} : { tokenId });
+  return fetchParsed(`/api/collection?${params}`, collectionStatsSchema);
+}
+
+export function fetchHolders(query: Partial<HoldersQuery>): Promise<HoldersResponse> {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, String(value)]),
+  );
+  return fetchParsed(`/api/holders?${params}`, holdersResponseSchema);
+}
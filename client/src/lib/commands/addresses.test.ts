@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveAddressArgs } from "./addresses";
+import { transferCommand } from "./nft";
+import { NameCache } from "@/lib/names";
+import { getAddressBook } from "@/lib/addressBook";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+
+// The address book remembers every address used, in localStorage
+const items = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+  });
+  return items;
+});
+
+describe("resolveAddressArgs", () => {
+  let names: NameCache;
+
+  beforeEach(() => {
+    items.clear();
+    names = new NameCache({
+      resolveName: vi.fn(async (name: string) => (name === "alice.base.eth" ? ALICE : null)),
+      lookupAddress: vi.fn(async () => null),
+    });
+  });
+
+  it("replaces names in address-typed args with their address", async () => {
+    const { input, resolved } = await resolveAddressArgs(transferCommand, { to: "alice.base.eth", tokenId: "0" }, names);
+    expect(input).toEqual({ to: ALICE, tokenId: "0" });
+    expect(resolved).toEqual([{ name: "alice.base.eth", address: ALICE }]);
+    expect(getAddressBook()).toEqual([{ address: ALICE, name: "alice.base.eth" }]);
+  });
+
+  it("leaves addresses and other args alone", async () => {
+    const { input, resolved } = await resolveAddressArgs(transferCommand, { to: ALICE, tokenId: "0", qty: "2" }, names);
+    expect(input).toEqual({ to: ALICE, tokenId: "0", qty: "2" });
+    expect(resolved).toEqual([]);
+    expect(getAddressBook()).toEqual([{ address: ALICE }]);
+  });
+
+  it("fails on names that don't resolve", async () => {
+    await expect(resolveAddressArgs(transferCommand, { to: "nobody.eth", tokenId: "0" }, names)).rejects.toThrow(
+      "Could not resolve nobody.eth",
+    );
+  });
+});
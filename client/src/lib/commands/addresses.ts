@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { getAddress, isAddress } from "thirdweb";
+import { type AnyCommand } from "./registry";
+import { names, isName, type NameCache } from "@/lib/names";
+import { rememberAddress } from "@/lib/addressBook";
+
+export interface ResolvedName {
+  name: string;
+  address: string;
+}
+
+// Schema for address-typed values before resolution: an address or something that looks like a name
+export const addressInput = z.string().refine((value) => isAddress(value) || isName(value), {
+  message: "Expected an address or ENS / Basename name",
+});
+
+// Specs whose values are addresses, keyed by their input property
+function addressKeys(command: AnyCommand): string[] {
+  return [...(command.args ?? []), ...(command.flags ?? [])]
+    .filter((spec) => spec.kind === "address")
+    .map((spec) => spec.name);
+}
+
+// Replaces ENS / Basename values of address-typed args and flags with the address
+// they resolve to, so handlers only ever see addresses. Other values are left for
+// the command to validate. Every address used is remembered for tab completion.
+export async function resolveAddressArgs(
+  command: AnyCommand,
+  input: unknown,
+  resolver: NameCache = names,
+): Promise<{ input: unknown; resolved: ResolvedName[] }> {
+  const resolved: ResolvedName[] = [];
+  if (typeof input !== "object" || input === null) {
+    return { input, resolved };
+  }
+  const output: Record<string, unknown> = { ...input };
+
+  const resolveValue = async (value: unknown) => {
+    if (typeof value === "string" && isAddress(value)) {
+      rememberAddress({ address: getAddress(value) });
+      return value;
+    }
+    if (typeof value !== "string" || !isName(value)) return value;
+    const address = await resolver.resolve(value);
+    resolved.push({ name: value, address });
+    rememberAddress({ address, name: value });
+    return address;
+  };
+
+  for (const key of addressKeys(command)) {
+    const value = output[key];
+    output[key] = Array.isArray(value)
+      ? await Promise.all(value.map(resolveValue))
+      : await resolveValue(value);
+  }
+  return { input: output, resolved };
+}
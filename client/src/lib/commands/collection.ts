@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { toTokens } from "thirdweb";
+import { defineCommand } from "./registry";
+import { fetchCollectionStats, fetchHolders } from "@/lib/collection";
+import { names } from "@/lib/names";
+
+export const statsCommand = defineCommand({
+  name: "stats",
+  description: "Show supply, holders and price of the collection",
+  args: [
+    { name: "tokenId", description: "Only count this token", optional: true, kind: "tokenId" },
+  ],
+  schema: z.object({
+    tokenId: z.string().regex(/^\d+$/, "Token ID must be a number").optional(),
+  }),
+  handler: async ({ input, print }) => {
+    print("output", "");
+    try {
+      const stats = await fetchCollectionStats(input.tokenId);
+      print("info", input.tokenId ? `Token #${input.tokenId}` : "Collection");
+      print("output", `  Contract:      ${stats.contract}`);
+      print("output", `  Supply:        ${stats.supply}`);
+      print("output", `  Minted:        ${stats.minted}`);
+      print("output", `  Burned:        ${stats.burned}`);
+      print("output", `  Holders:       ${stats.holders}`);
+      if (stats.price) {
+        const { price } = stats;
+        print("output", `  Price:         ${toTokens(BigInt(price.pricePerToken), price.currencyDecimals)} ${price.currencySymbol} (token #${price.tokenId})`);
+      } else {
+        print("output", "  Price:         no active claim condition");
+      }
+      if (stats.indexedBlock !== null) {
+        print("output", `  Indexed to:    block ${stats.indexedBlock}`);
+      }
+    } catch (error) {
+      print("error", `Failed to load stats: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const holdersCommand = defineCommand({
+  name: "holders",
+  description: "List the wallets holding the collection",
+  args: [
+    { name: "page", description: "Page of results", optional: true },
+  ],
+  flags: [
+    { name: "sort", description: "Order by balance or address", value: "field", choices: ["balance", "address"] },
+    { name: "asc", description: "Smallest or lowest first" },
+    { name: "token", short: "t", description: "Only holders of this token", value: "tokenId", kind: "tokenId" },
+  ],
+  schema: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    sort: z.enum(["balance", "address"]).default("balance"),
+    asc: z.boolean().default(false),
+    token: z.string().regex(/^\d+$/, "Token ID must be a number").optional(),
+  }),
+  handler: async ({ input, print }) => {
+    print("output", "");
+    try {
+      const holders = await fetchHolders({
+        page: input.page,
+        sort: input.sort,
+        order: input.asc ? "asc" : "desc",
+        tokenId: input.token,
+      });
+      if (holders.items.length === 0) {
+        print("info", holders.total === 0 ? "No holders yet" : `No holders on page ${input.page}`);
+      } else {
+        const pages = Math.ceil(holders.total / holders.pageSize);
+        print("info", `${holders.total} holder${holders.total === 1 ? "" : "s"} (page ${holders.page} of ${pages}):`);
+        const labels = await Promise.all(holders.items.map((holder) => names.display(holder.address)));
+        const offset = (holders.page - 1) * holders.pageSize;
+        holders.items.forEach((holder, index) => {
+          const ids = holder.tokenIds > 1 ? ` across ${holder.tokenIds} token IDs` : "";
+          print("output", `  ${String(offset + index + 1).padStart(4)}. ${labels[index]}  ${holder.balance}${ids}`);
+        });
+        if (holders.page < pages) {
+          print("output", "");
+          print("output", `Run 'holders ${holders.page + 1}' for more`);
+        }
+      }
+    } catch (error) {
+      print("error", `Failed to load holders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { commonPrefix, complete, type CompletionSources } from "./completion";
+import { CommandRegistry, defineCommand } from "./registry";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+
+const registry = new CommandRegistry()
+  .register(defineCommand({
+    name: "transfer",
+    aliases: ["send"],
+    description: "Send a token",
+    args: [
+      { name: "to", description: "Receiver", kind: "address" },
+      { name: "tokenId", description: "Token", kind: "tokenId" },
+    ],
+    flags: [
+      { name: "qty", short: "q", description: "How many", value: "n" },
+      { name: "network", description: "Chain", value: "name", kind: "chain" },
+      { name: "yes", short: "y", description: "Skip confirmation" },
+    ],
+    handler: async () => {},
+  }))
+  .register(defineCommand({
+    name: "network",
+    description: "Show or change the network",
+    args: [{ name: "action", description: "What to do", choices: ["use", "switch", "list"], optional: true }],
+    handler: async () => {},
+  }))
+  .register(defineCommand({
+    name: "help",
+    description: "Show help",
+    args: [{ name: "topics", description: "Commands", variadic: true, kind: "chain" }],
+    handler: async () => {},
+  }))
+  .register(defineCommand({
+    name: "vault",
+    description: "Holder vault",
+    holderOnly: true,
+    handler: async () => {},
+  }));
+
+const sources: CompletionSources = {
+  address: () => [ALICE, "alice.base.eth", "alice.base.eth"],
+  tokenId: () => ["0", "1", "12"],
+  chain: () => ["base", "base-sepolia", "ethereum"],
+};
+
+describe("complete", () => {
+  it("completes command names and aliases", () => {
+    expect(complete("", registry, sources).candidates).toEqual(["transfer", "send", "network", "help", "vault"]);
+    expect(complete("  SE", registry, sources)).toEqual({ start: 2, prefix: "SE", candidates: ["send"] });
+  });
+
+  it("offers holder-only commands only to holders", () => {
+    expect(complete("v", registry, sources).candidates).toEqual(["vault"]);
+    expect(complete("v", registry, sources, false).candidates).toEqual([]);
+  });
+
+  it("offers nothing after an unknown command", () => {
+    expect(complete("nope ", registry, sources).candidates).toEqual([]);
+  });
+
+  it("completes positionals from their kind, without duplicates", () => {
+    expect(complete("send a", registry, sources)).toEqual({ start: 5, prefix: "a", candidates: ["alice.base.eth"] });
+    expect(complete(`transfer ${ALICE} 1`, registry, sources).candidates).toEqual(["1", "12"]);
+  });
+
+  it("completes positionals from their choices", () => {
+    expect(complete("network s", registry, sources).candidates).toEqual(["switch"]);
+  });
+
+  it("keeps completing a variadic arg", () => {
+    expect(complete("help base ba", registry, sources).candidates).toEqual(["base", "base-sepolia"]);
+  });
+
+  it("offers nothing past the last positional", () => {
+    expect(complete(`transfer ${ALICE} 1 `, registry, sources).candidates).toEqual([]);
+  });
+
+  it("completes flag names", () => {
+    expect(complete("transfer --", registry, sources).candidates).toEqual(["--qty", "--network", "--yes"]);
+    expect(complete("transfer --n", registry, sources).candidates).toEqual(["--network"]);
+  });
+
+  it("completes the value after a flag that takes one", () => {
+    expect(complete("transfer --network b", registry, sources).candidates).toEqual(["base", "base-sepolia"]);
+    expect(complete("transfer -q ", registry, sources).candidates).toEqual([]);
+  });
+
+  it("completes --flag=value after the equals sign", () => {
+    expect(complete("transfer --network=eth", registry, sources)).toEqual({
+      start: 19,
+      prefix: "eth",
+      candidates: ["ethereum"],
+    });
+  });
+
+  it("doesn't count flags or their values as positionals", () => {
+    expect(complete("transfer --network base -y --qty=2 al", registry, sources).candidates).toEqual(["alice.base.eth"]);
+    expect(complete("transfer -y --network base al", registry, sources).candidates).toEqual(["alice.base.eth"]);
+  });
+});
+
+describe("commonPrefix", () => {
+  it("finds the longest shared prefix, ignoring case", () => {
+    expect(commonPrefix(["base", "base-sepolia"])).toBe("base");
+    expect(commonPrefix(["Alice", "alina"])).toBe("Ali");
+    expect(commonPrefix(["mint", "transfer"])).toBe("");
+  });
+
+  it("returns an empty string for no candidates", () => {
+    expect(commonPrefix([])).toBe("");
+  });
+});
@@ -0,0 +1,97 @@
+import { type CommandRegistry, type ValueKind, type ArgSpec, type FlagSpec } from "./registry";
+
+// Supplies the context-aware candidates for each value kind
+export type CompletionSources = Record<ValueKind, () => string[]>;
+
+export interface Completion {
+  // Index in the input where the token being completed starts
+  start: number;
+  // The partial token under the cursor
+  prefix: string;
+  candidates: string[];
+}
+
+function matching(values: string[], prefix: string): string[] {
+  const lower = prefix.toLowerCase();
+  return Array.from(new Set(values)).filter((value) => value.toLowerCase().startsWith(lower));
+}
+
+function valuesFor(spec: ArgSpec | FlagSpec | undefined, sources: CompletionSources): string[] {
+  if (!spec) return [];
+  if (spec.choices) return spec.choices;
+  if (spec.kind) return sources[spec.kind]();
+  return [];
+}
+
+// Works out what could complete the token before the end of `input`, using the
+// resolved command's declared args and flags. Quoting is ignored here; completion
+// only ever looks at plain whitespace-separated words. Holder-only commands are
+// offered only when `holder` is true.
+export function complete(input: string, registry: CommandRegistry, sources: CompletionSources, holder: boolean = true): Completion {
+  const start = input.search(/\S*$/);
+  const prefix = input.slice(start);
+  const previous = input.slice(0, start).trim().split(/\s+/).filter(Boolean);
+
+  if (previous.length === 0) {
+    const names = registry.list(holder).flatMap((command) => [command.name, ...(command.aliases ?? [])]);
+    return { start, prefix, candidates: matching(names, prefix) };
+  }
+
+  const command = registry.resolve(previous[0]);
+  if (!command) {
+    return { start, prefix, candidates: [] };
+  }
+
+  const flags = command.flags ?? [];
+  const findFlag = (token: string) =>
+    token.startsWith("--")
+      ? flags.find((flag) => flag.name === token.slice(2))
+      : flags.find((flag) => flag.short === token.slice(1));
+
+  // Walk the words already typed to find which positional or flag value is next
+  let positionalIndex = 0;
+  let pendingFlag: FlagSpec | undefined;
+  for (const token of previous.slice(1)) {
+    if (pendingFlag) {
+      pendingFlag = undefined;
+    } else if (token.startsWith("-") && !token.includes("=")) {
+      const flag = findFlag(token);
+      pendingFlag = flag?.value ? flag : undefined;
+    } else if (!token.startsWith("-")) {
+      positionalIndex++;
+    }
+  }
+
+  if (pendingFlag) {
+    return { start, prefix, candidates: matching(valuesFor(pendingFlag, sources), prefix) };
+  }
+
+  if (prefix.startsWith("-")) {
+    const eq = prefix.indexOf("=");
+    if (eq !== -1) {
+      const flag = findFlag(prefix.slice(0, eq));
+      const valuePrefix = prefix.slice(eq + 1);
+      return {
+        start: start + eq + 1,
+        prefix: valuePrefix,
+        candidates: matching(valuesFor(flag, sources), valuePrefix),
+      };
+    }
+    return { start, prefix, candidates: matching(flags.map((flag) => `--${flag.name}`), prefix) };
+  }
+
+  const args = command.args ?? [];
+  const last = args[args.length - 1];
+  const spec = positionalIndex < args.length ? args[positionalIndex] : last?.variadic ? last : undefined;
+  return { start, prefix, candidates: matching(valuesFor(spec, sources), prefix) };
+}
+
+// Longest prefix shared by every candidate, used to extend an ambiguous completion
+export function commonPrefix(candidates: string[]): string {
+  if (candidates.length === 0) return "";
+  return candidates.reduce((acc, candidate) => {
+    let i = 0;
+    while (i < acc.length && i < candidate.length && acc[i].toLowerCase() === candidate[i].toLowerCase()) i++;
+    return acc.slice(0, i);
+  });
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { defineCommand, formatUsage } from "./registry";
+
+export const helpCommand = defineCommand({
+  name: "help",
+  aliases: ["?"],
+  description: "Show this help message",
+  handler: async ({ registry, isHolder, print }) => {
+    const commands = registry.list(isHolder);
+    const width = Math.max(...commands.map((command) => formatUsage(command).length)) + 2;
+
+    print("output", "");
+    print("output", "Available commands:");
+    commands.forEach((command) => {
+      const aliases = command.aliases?.length ? ` (alias: ${command.aliases.join(", ")})` : "";
+      print("output", `  ${formatUsage(command).padEnd(width)} - ${command.description}${aliases}`);
+    });
+    print("output", "");
+  },
+});
+
+export const clearCommand = defineCommand({
+  name: "clear",
+  aliases: ["cls"],
+  description: "Clear terminal screen",
+  handler: async ({ clear }) => {
+    clear();
+  },
+});
+
+export const historyCommand = defineCommand({
+  name: "history",
+  description: "Show or clear command history (!n re-runs entry n, !! the last)",
+  args: [
+    { name: "action", description: "list or clear", optional: true, choices: ["list", "clear"] },
+  ],
+  flags: [
+    { name: "last", short: "n", description: "Only show the most recent entries", value: "count" },
+  ],
+  schema: z.object({
+    action: z.enum(["list", "clear"]).default("list"),
+    last: z.coerce.number().int().positive().optional(),
+  }),
+  handler: async ({ input, history, print }) => {
+    if (input.action === "clear") {
+      history.clear();
+      print("info", "✓ Command history cleared");
+      print("output", "");
+      return;
+    }
+
+    const start = input.last ? Math.max(0, history.entries.length - input.last) : 0;
+    const width = String(history.entries.length).length;
+    print("output", "");
+    history.entries.slice(start).forEach((entry, index) => {
+      print("output", `  ${String(start + index + 1).padStart(width)}  ${entry}`);
+    });
+    print("output", "");
+  },
+});
@@ -0,0 +1,46 @@
+import { toTokens } from "thirdweb";
+import { type CostEstimate } from "@/contexts/Web3Context";
+import { type CommandContext } from "./registry";
+
+function formatEth(wei: bigint): string {
+  return Number(toTokens(wei, 18)).toFixed(8);
+}
+
+function formatGwei(wei: bigint): string {
+  return Number(toTokens(wei, 9)).toFixed(4);
+}
+
+function formatUsd(wei: bigint, ethUsd: number | null): string {
+  if (ethUsd === null) return "n/a";
+  const usd = Number(toTokens(wei, 18)) * ethUsd;
+  return usd > 0 && usd < 0.0001 ? "<$0.0001" : `$${usd.toFixed(4)}`;
+}
+
+// Itemised network cost of a planned sequence of transactions, e.g.
+//   Transaction        Gas   Execution (ETH)   L1 data (ETH)   Total (ETH)     USD
+//   Approve 1 USDC   46,000        0.00000051      0.00000002    0.00000053  $0.0016
+export function printCostTable(print: CommandContext["print"], costs: CostEstimate) {
+  const rows = costs.items.map((item) => [
+    item.description,
+    `${item.approximate ? "~" : ""}${item.gas.toLocaleString()}`,
+    formatEth(item.executionFee),
+    formatEth(item.l1Fee),
+    formatEth(item.total),
+    formatUsd(item.total, costs.ethUsd),
+  ]);
+  const header = ["Transaction", "Gas", "Execution (ETH)", "L1 data (ETH)", "Total (ETH)", "USD"];
+  const footer = ["Total", "", "", "", formatEth(costs.total), formatUsd(costs.total, costs.ethUsd)];
+  const widths = header.map((_, column) => Math.max(...[header, ...rows, footer].map((row) => row[column].length)));
+  // Descriptions read left to right, numbers line up on the right
+  const format = (row: string[]) =>
+    `  ${row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("   ")}`;
+
+  print("info", "Estimated network cost:");
+  print("output", `  Base fee ${formatGwei(costs.baseFeePerGas)} gwei, priority fee ${formatGwei(costs.maxPriorityFeePerGas)} gwei${costs.ethUsd === null ? "" : `, ETH $${costs.ethUsd.toFixed(2)}`}`);
+  print("output", format(header));
+  rows.forEach((row) => print("output", format(row)));
+  print("output", format(footer));
+  if (costs.items.some((item) => item.approximate)) {
+    print("output", "  ~ typical gas; the claim can only be simulated once the approval is mined");
+  }
+}
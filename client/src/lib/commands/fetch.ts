@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { toUnits } from "thirdweb";
+import { defineCommand, type CommandContext } from "./registry";
+import { CommandCancelledError } from "./prompt";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import {
+  PAYMENT_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  SPEND_CAP,
+  USDC_DECIMALS,
+  checkPaymentAsset,
+  createPaymentHeader,
+  formatUsdc,
+  getSessionSpend,
+  parsePaymentRequired,
+  parsePaymentResponse,
+  recordSpend,
+} from "@/lib/payments";
+
+// JSON is pretty-printed, anything else shown as text
+async function printBody(res: Response, print: CommandContext["print"]) {
+  const text = await res.text();
+  let body = text;
+  if (res.headers.get("Content-Type")?.includes("application/json")) {
+    try {
+      body = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Not actually JSON; show it as is
+    }
+  }
+  body.split("\n").forEach((line) => print("output", line));
+}
+
+export const fetchCommand = defineCommand({
+  name: "fetch",
+  description: "Request a URL, paying for it in USDC if it answers 402",
+  args: [
+    { name: "url", description: "URL or API path, e.g. /api/holders/export" },
+  ],
+  flags: [
+    { name: "max-pay", description: "Most to pay for this request", value: "usdc" },
+  ],
+  schema: z.object({
+    url: z.string(),
+    "max-pay": z.string().regex(/^\d+(\.\d{1,6})?$/, "Amount must be in USDC, e.g. 0.25").optional(),
+  }),
+  handler: async ({ input, web3, print, prompt }) => {
+    print("output", "");
+    try {
+      let res: Response;
+      try {
+        res = await apiRequest("GET", input.url);
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 402) throw error;
+
+        const { accepts } = parsePaymentRequired(error.body);
+        const requirement = accepts.find((option) => option.scheme === "exact" && option.chainId === web3.deployment.chain.id);
+        if (!requirement) {
+          const networks = accepts.map((option) => option.network).join(", ");
+          throw new Error(`Payment is only accepted on ${networks}; switch with 'network use <name>'`);
+        }
+
+        checkPaymentAsset(requirement, web3.deployment.paymentToken);
+
+        const price = BigInt(requirement.maxAmountRequired);
+        const spent = getSessionSpend();
+        print("info", `Payment required: ${formatUsdc(price)} to ${requirement.payTo} on ${requirement.network}`);
+        print("output", `  ${requirement.description}`);
+
+        if (input["max-pay"] !== undefined && price > toUnits(input["max-pay"], USDC_DECIMALS)) {
+          throw new Error(`Price is above --max-pay ${input["max-pay"]} USDC`);
+        }
+        if (spent + price > SPEND_CAP) {
+          throw new Error(`Payment would exceed this session's cap of ${formatUsdc(SPEND_CAP)} (${formatUsdc(spent)} spent)`);
+        }
+        if (!web3.wallet?.isConnected) {
+          throw new Error("Wallet not connected. Run 'connect' first.");
+        }
+        if (!(await prompt.confirm(`Pay ${formatUsdc(price)} for ${input.url}?`))) {
+          print("info", "Payment cancelled");
+          print("output", "");
+          return;
+        }
+
+        // The authorization is only valid on the chain it names, so sign it there
+        if (web3.wallet.chainId !== requirement.chainId) {
+          print("info", `Asking wallet to switch to ${web3.deployment.label}...`);
+          await web3.switchNetwork();
+        }
+        print("info", "Please sign the USDC authorization in your wallet");
+        const header = await createPaymentHeader(requirement, web3.wallet.address, web3.signTypedData);
+        try {
+          res = await apiRequest("GET", input.url, undefined, { [PAYMENT_HEADER]: header });
+        } catch (retryError) {
+          if (retryError instanceof ApiError && retryError.status === 402) {
+            throw new Error(`Payment rejected: ${parsePaymentRequired(retryError.body).error}`);
+          }
+          // Anything but a 402 means the server took the payment before the request failed
+          if (retryError instanceof ApiError) {
+            recordSpend(price);
+            throw new Error(`Paid ${formatUsdc(price)} but the request failed: ${retryError.message}`);
+          }
+          throw retryError;
+        }
+        recordSpend(price);
+
+        const settlement = parsePaymentResponse(res.headers.get(PAYMENT_RESPONSE_HEADER));
+        const settled = settlement?.transaction ? `tx ${settlement.transaction}` : "recorded by the server";
+        print("info", `✓ Paid ${formatUsdc(price)} (${settled}); ${formatUsdc(SPEND_CAP - spent - price)} left this session`);
+        print("output", "");
+      }
+
+      await printBody(res, print);
+    } catch (error) {
+      if (error instanceof CommandCancelledError) throw error;
+      print("error", `Fetch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
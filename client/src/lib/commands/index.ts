@@ -0,0 +1,44 @@
+import { CommandRegistry } from "./registry";
+import { helpCommand, clearCommand, historyCommand } from "./core";
+import { connectCommand, disconnectCommand, whoamiCommand, loginCommand, logoutCommand, accountCommand, balanceCommand } from "./wallet";
+import { mintCommand, transferCommand, nftsCommand, dropCommand, eligibilityCommand } from "./nft";
+import { txCommand } from "./tx";
+import { statsCommand, holdersCommand } from "./collection";
+import { networkCommand } from "./network";
+import { fetchCommand } from "./fetch";
+import { vaultCommand } from "./vault";
+
+export { CommandRegistry, defineCommand, formatUsage } from "./registry";
+export type { ArgSpec, FlagSpec, ValueKind, CommandContext, CommandDefinition, AnyCommand } from "./registry";
+export { UsageError, tokenize, parseArgs, parseCommandInput } from "./parser";
+export { complete, commonPrefix } from "./completion";
+export { resolveAddressArgs, addressInput } from "./addresses";
+export type { ResolvedName } from "./addresses";
+export type { Completion, CompletionSources } from "./completion";
+export { formatTransactionLine } from "./tx";
+export { CommandCancelledError, createPrompt, promptLabel, parseConfirm } from "./prompt";
+export type { Prompt, PendingPrompt, SelectOption, TextOptions } from "./prompt";
+
+// Order of registration is the order commands appear in `help`
+export const registry = new CommandRegistry()
+  .register(connectCommand)
+  .register(disconnectCommand)
+  .register(whoamiCommand)
+  .register(loginCommand)
+  .register(logoutCommand)
+  .register(accountCommand)
+  .register(networkCommand)
+  .register(dropCommand)
+  .register(eligibilityCommand)
+  .register(mintCommand)
+  .register(transferCommand)
+  .register(balanceCommand)
+  .register(nftsCommand)
+  .register(statsCommand)
+  .register(holdersCommand)
+  .register(fetchCommand)
+  .register(vaultCommand)
+  .register(txCommand)
+  .register(historyCommand)
+  .register(clearCommand)
+  .register(helpCommand);
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { defineCommand } from "./registry";
+import { deployments, isConfigured, DEPLOYMENT_NAMES } from "@/lib/deployments";
+
+export const networkCommand = defineCommand({
+  name: "network",
+  aliases: ["net"],
+  description: "List networks, select one, or switch your wallet to the selected one",
+  args: [
+    { name: "action", description: "list, use or switch", optional: true, choices: ["list", "use", "switch"] },
+    { name: "name", description: "Network to use", optional: true, kind: "chain" },
+  ],
+  schema: z
+    .object({
+      action: z.enum(["list", "use", "switch"]).default("list"),
+      name: z.enum(DEPLOYMENT_NAMES, {
+        errorMap: () => ({ message: `Unknown network; expected one of ${DEPLOYMENT_NAMES.join(", ")}` }),
+      }).optional(),
+    })
+    .refine((input) => input.action !== "use" || input.name, {
+      message: "Missing network name for 'network use'",
+    }),
+  handler: async ({ input, web3, print }) => {
+    const { deployment, wallet } = web3;
+
+    print("output", "");
+    switch (input.action) {
+      case "list": {
+        Object.values(deployments).forEach((entry) => {
+          const marker = entry.name === deployment.name ? "*" : " ";
+          const status = isConfigured(entry) ? entry.nftContract : "(no contract configured)";
+          print("output", `${marker} ${entry.name.padEnd(14)} ${entry.label.padEnd(14)} chain ${String(entry.chain.id).padEnd(7)} ${status}`);
+        });
+        if (wallet) {
+          print("output", "");
+          print("info", `Wallet chain ID: ${wallet.chainId}`);
+        }
+        break;
+      }
+      case "use": {
+        const next = deployments[input.name!];
+        if (!isConfigured(next)) {
+          print("error", `Warning: no NFT contract configured for ${next.label}`);
+        }
+        // The selection sticks even if the wallet refuses to follow
+        try {
+          await web3.selectNetwork(next.name);
+        } catch (error) {
+          print("error", `Wallet did not switch: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+        print("info", `✓ Using ${next.label} (chain ${next.chain.id})`);
+        break;
+      }
+      case "switch": {
+        if (!wallet) {
+          print("error", "Wallet not connected. Use 'connect' first.");
+          break;
+        }
+        if (!web3.isWrongChain) {
+          print("info", `Wallet is already on ${deployment.label}`);
+          break;
+        }
+        print("info", `Asking wallet to switch to ${deployment.label}...`);
+        try {
+          await web3.switchNetwork();
+          print("info", `✓ Wallet switched to ${deployment.label}`);
+        } catch (error) {
+          print("error", `Switch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+        break;
+      }
+    }
+    print("output", "");
+  },
+});
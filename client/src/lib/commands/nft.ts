@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { toTokens } from "thirdweb";
+import { type ClaimConditionInfo } from "@/contexts/Web3Context";
+import { defineCommand } from "./registry";
+import { addressInput } from "./addresses";
+import { printCostTable } from "./costs";
+import { CommandCancelledError } from "./prompt";
+import { names } from "@/lib/names";
+import { RevertError, toRevertError, topUpHint } from "@/lib/revert";
+import { resolveImageUrl } from "@/lib/metadata";
+import { renderAscii } from "@/lib/ascii";
+
+// uint256 max is how the Drop contract spells "no limit"
+const UNLIMITED = 2n ** 256n - 1n;
+const ZERO_ROOT = `0x${"0".repeat(64)}`;
+
+function formatAmount(amount: bigint, condition: ClaimConditionInfo): string {
+  return `${toTokens(amount, condition.currencyDecimals)} ${condition.currencySymbol}`;
+}
+
+export const mintCommand = defineCommand({
+  name: "mint",
+  description: "Mint NFTs at the drop's current price",
+  args: [
+    { name: "qty", description: "Number of tokens to mint (1-100)", optional: true },
+  ],
+  flags: [
+    { name: "to", description: "Send the minted tokens to another wallet", value: "address|ens", kind: "address" },
+    { name: "dry-run", short: "n", description: "Check funds and simulate without sending" },
+  ],
+  schema: z.object({
+    qty: z.coerce.number().int().min(1).max(100).default(1),
+    to: addressInput.optional(),
+    "dry-run": z.boolean().default(false),
+  }),
+  requiresWallet: true,
+  handler: async ({ input, web3, print, prompt, signal }) => {
+    // Names in --to are already resolved to an address
+    const { qty, to: receiver } = input;
+
+    print("output", "");
+    try {
+      if (receiver) {
+        print("info", `Recipient: ${await names.display(receiver)}`);
+      }
+
+      if (input["dry-run"]) {
+        print("info", `Dry run: minting ${qty} NFT${qty > 1 ? "s" : ""} to ${await names.display(receiver ?? web3.wallet!.address)}`);
+        const simulation = await web3.simulateMint(qty, { to: receiver });
+        const { condition } = simulation;
+        print("output", `  Price:         ${formatAmount(condition.pricePerToken, condition)} each`);
+        if (condition.onAllowlist) {
+          print("output", "  Allowlist:     proof found, allowlist price applies");
+        }
+        print("output", `  Total cost:    ${formatAmount(simulation.totalPrice, condition)}`);
+        print("output", `  Balance:       ${formatAmount(simulation.balance, condition)}`);
+        if (simulation.needsApproval) {
+          print("output", `  Approval:      approve ${formatAmount(simulation.totalPrice, condition)} (current allowance ${formatAmount(simulation.allowance, condition)}), est. ${simulation.approveGas?.toLocaleString()} gas`);
+          print("output", "  Claim:         simulated after approval is confirmed");
+        } else {
+          print("output", "  Approval:      not needed");
+          print("output", `  Claim:         simulation succeeded, est. ${simulation.claimGas?.toLocaleString()} gas`);
+        }
+        print("info", "No transaction was sent");
+      } else {
+        print("info", `Preparing to mint ${qty} NFT${qty > 1 ? "s" : ""}...`);
+        const { quote, costs } = await web3.estimateMintCost(qty, { to: receiver });
+        const { condition } = quote;
+        print("output", `  Price:         ${formatAmount(quote.totalPrice, condition)}`);
+        printCostTable(print, costs);
+
+        // Native-currency claims pay the price out of the same balance as gas
+        const needed = costs.total + (condition.isNative ? quote.totalPrice : 0n);
+        if (costs.nativeBalance < needed) {
+          const { label, chain } = web3.deployment;
+          const symbol = chain.nativeCurrency?.symbol ?? "ETH";
+          const decimals = chain.nativeCurrency?.decimals ?? 18;
+          print("error", `Insufficient ${symbol} for gas: need ${toTokens(needed, decimals)} ${symbol}, have ${toTokens(costs.nativeBalance, decimals)} ${symbol}`);
+          print("info", `Hint: ${topUpHint({ network: label, currencySymbol: symbol })}`);
+          print("output", "");
+          return;
+        }
+        if (!(await prompt.confirm("Proceed?"))) {
+          print("info", "Mint cancelled; no transaction was sent");
+          print("output", "");
+          return;
+        }
+
+        const txHash = await web3.mintNFT(qty, { to: receiver, signal });
+        const tx = await web3.transactions.wait(txHash, signal);
+        if (tx.status === "failed") {
+          print("error", `Mint failed: ${tx.error ?? "transaction failed"}`);
+        } else {
+          print("info", `✓ NFT minted successfully`);
+          print("info", `Run 'tx ${txHash.slice(0, 10)}' for details`);
+        }
+      }
+    } catch (error) {
+      if (error instanceof CommandCancelledError) throw error;
+      print("error", `Mint failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      if (error instanceof RevertError && error.hint) {
+        print("info", `Hint: ${error.hint}`);
+      }
+    }
+    print("output", "");
+  },
+});
+
+export const transferCommand = defineCommand({
+  name: "transfer",
+  description: "Send NFTs you hold to another wallet",
+  args: [
+    { name: "to", description: "Recipient address or ENS / Basename", kind: "address" },
+    { name: "tokenId", description: "Token to send", kind: "tokenId" },
+    { name: "qty", description: "Number of tokens to send", optional: true },
+  ],
+  schema: z.object({
+    to: addressInput,
+    tokenId: z.string().regex(/^\d+$/, "Token ID must be a number"),
+    qty: z.coerce.number().int().min(1).default(1),
+  }),
+  requiresWallet: true,
+  handler: async ({ input, web3, print, prompt, signal }) => {
+    // Names in `to` are already resolved to an address
+    const { to, tokenId, qty } = input;
+
+    print("output", "");
+    try {
+      const held = (await web3.getHoldings()).find((holding) => holding.tokenId === tokenId)?.balance ?? 0n;
+      if (held < BigInt(qty)) {
+        print("error", `You hold ${held} of token #${tokenId}, can't send ${qty}`);
+        print("output", "");
+        return;
+      }
+      if (to.toLowerCase() === web3.wallet!.address.toLowerCase()) {
+        print("error", "That's your own wallet");
+        print("output", "");
+        return;
+      }
+
+      print("info", `Sending ${qty} of token #${tokenId} to ${await names.display(to)}`);
+      if (!(await prompt.confirm("Proceed?"))) {
+        print("info", "Transfer cancelled; no transaction was sent");
+        print("output", "");
+        return;
+      }
+
+      const txHash = await web3.transferNFT(to, tokenId, BigInt(qty));
+      const tx = await web3.transactions.wait(txHash, signal);
+      if (tx.status === "failed") {
+        print("error", `Transfer failed: ${tx.error ?? "transaction failed"}`);
+      } else {
+        print("info", "✓ Transfer sent");
+        print("info", `Run 'tx ${txHash.slice(0, 10)}' for details`);
+      }
+    } catch (error) {
+      if (error instanceof CommandCancelledError) throw error;
+      const revertError = toRevertError(error, { network: web3.deployment.label });
+      print("error", `Transfer failed: ${revertError?.message ?? (error instanceof Error ? error.message : "Unknown error")}`);
+      if (revertError?.hint) print("info", `Hint: ${revertError.hint}`);
+    }
+    print("output", "");
+  },
+});
+
+export const nftsCommand = defineCommand({
+  name: "nfts",
+  description: "Display your NFT collection with metadata and images",
+  args: [
+    { name: "tokenId", description: "Only show this token", optional: true, kind: "tokenId" },
+  ],
+  flags: [
+    { name: "ascii", short: "a", description: "Draw images as ASCII art instead of thumbnails" },
+  ],
+  schema: z.object({
+    tokenId: z.string().regex(/^\d+$/, "Token ID must be a number").optional(),
+    ascii: z.boolean().default(false),
+  }),
+  requiresWallet: true,
+  handler: async ({ input, web3, print }) => {
+    print("output", "");
+    print("info", "Loading your NFT collection...");
+    try {
+      const nfts = (await web3.getNFTs()).filter((nft) => !input.tokenId || nft.tokenId === input.tokenId);
+      print("output", "");
+      if (nfts.length === 0) {
+        print("info", input.tokenId ? `You don't hold token #${input.tokenId}` : "No NFTs found in your wallet");
+      } else {
+        print("info", `Found ${nfts.length} NFT${nfts.length > 1 ? "s" : ""}:`);
+        for (const [index, nft] of nfts.entries()) {
+          print("output", "");
+          print("output", `  ${index + 1}. ${nft.name} (Token #${nft.tokenId})${nft.balance ? ` x${nft.balance}` : ""}`);
+          if (nft.description) {
+            print("output", `     ${nft.description}`);
+          }
+          for (const attribute of nft.attributes ?? []) {
+            print("output", `     ${attribute.trait_type ?? "trait"}: ${attribute.value}`);
+          }
+          if (!nft.image) continue;
+
+          const imageUrl = resolveImageUrl(nft.image);
+          if (input.ascii) {
+            try {
+              for (const line of await renderAscii(imageUrl)) {
+                print("output", `     ${line}`);
+              }
+            } catch (error) {
+              print("info", `     Could not draw image: ${error instanceof Error ? error.message : "Unknown error"}`);
+            }
+          } else {
+            print("image", imageUrl);
+          }
+        }
+      }
+    } catch (error) {
+      print("error", `Failed to load NFTs: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const dropCommand = defineCommand({
+  name: "drop",
+  aliases: ["info"],
+  description: "Show the drop's active claim condition",
+  handler: async ({ web3, print }) => {
+    print("output", "");
+    print("info", "Reading claim condition...");
+    try {
+      const condition = await web3.getClaimCondition();
+      const remaining = condition.maxClaimableSupply === UNLIMITED
+        ? "unlimited"
+        : (condition.maxClaimableSupply - condition.supplyClaimed).toLocaleString();
+      const started = condition.startTimestamp * 1000 <= Date.now();
+
+      print("output", "");
+      print("output", `  Token ID:        ${condition.tokenId}`);
+      print("output", `  Price:           ${formatAmount(condition.pricePerToken, condition)}`);
+      print("output", `  Currency:        ${condition.currency}`);
+      print("output", `  Start:           ${new Date(condition.startTimestamp * 1000).toLocaleString()}${started ? " (live)" : " (not started)"}`);
+      print("output", `  Max per wallet:  ${condition.maxPerWallet === UNLIMITED ? "unlimited" : condition.maxPerWallet.toString()}`);
+      print("output", `  Claimed:         ${condition.supplyClaimed.toLocaleString()}`);
+      print("output", `  Remaining:       ${remaining}`);
+      print("output", `  Allowlist:       ${condition.merkleRoot === ZERO_ROOT ? "none (public)" : condition.merkleRoot}`);
+    } catch (error) {
+      const revertError = toRevertError(error, { network: web3.deployment.label });
+      if (revertError) {
+        print("error", revertError.message);
+        if (revertError.hint) print("info", `Hint: ${revertError.hint}`);
+      } else {
+        print("error", `Failed to read claim condition: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+    print("output", "");
+  },
+});
+
+export const eligibilityCommand = defineCommand({
+  name: "eligibility",
+  description: "Check whether a wallet is on the drop's allowlist",
+  args: [
+    { name: "address", description: "Wallet to check (defaults to yours)", optional: true, kind: "address" },
+  ],
+  schema: z.object({
+    address: addressInput.optional(),
+  }),
+  handler: async ({ input, web3, print }) => {
+    print("output", "");
+    if (!input.address && !web3.wallet?.isConnected) {
+      print("error", "Wallet not connected. Run 'connect' first or pass an address.");
+      print("output", "");
+      return;
+    }
+
+    try {
+      const address = input.address ?? web3.wallet!.address;
+      print("info", `Checking eligibility for ${await names.display(address)}...`);
+      const terms = await web3.getClaimTerms(address);
+      const limit = terms.maxPerWallet === UNLIMITED ? "unlimited" : terms.maxPerWallet.toString();
+
+      print("output", "");
+      if (terms.merkleRoot === ZERO_ROOT) {
+        print("info", "✓ The current phase is public, no allowlist required");
+      } else if (terms.onAllowlist) {
+        print("info", "✓ On the allowlist for the current phase");
+      } else if (terms.maxPerWallet === 0n) {
+        print("error", "✗ Not on the allowlist; this phase is allowlist-only");
+      } else {
+        print("info", "✗ Not on the allowlist; public terms apply");
+      }
+      if (terms.onAllowlist || terms.maxPerWallet !== 0n) {
+        print("output", `  Price:           ${formatAmount(terms.pricePerToken, terms)}`);
+        print("output", `  Max per wallet:  ${limit}`);
+      }
+    } catch (error) {
+      const revertError = toRevertError(error, { network: web3.deployment.label });
+      print("error", `Eligibility check failed: ${revertError?.message ?? (error instanceof Error ? error.message : "Unknown error")}`);
+    }
+    print("output", "");
+  },
+});
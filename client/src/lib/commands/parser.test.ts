@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { UsageError, parseArgs, parseCommandInput, tokenize } from "./parser";
+import { defineCommand, type FlagSpec } from "./registry";
+
+const FLAGS: FlagSpec[] = [
+  { name: "to", short: "t", description: "Receiver", value: "address" },
+  { name: "yes", short: "y", description: "Skip confirmation" },
+];
+
+const mintCommand = defineCommand({
+  name: "mint",
+  description: "Mint tokens",
+  args: [{ name: "qty", description: "How many", optional: true }],
+  flags: FLAGS,
+  schema: z.object({
+    qty: z.coerce.number().int().positive().default(1),
+    to: z.string().optional(),
+    yes: z.boolean().optional(),
+  }),
+  handler: async () => {},
+});
+
+const helpCommand = defineCommand({
+  name: "help",
+  description: "Show help",
+  args: [{ name: "topics", description: "Commands to explain", variadic: true }],
+  handler: async () => {},
+});
+
+describe("tokenize", () => {
+  it("splits on runs of whitespace", () => {
+    expect(tokenize("  mint   2\t--yes ")).toEqual(["mint", "2", "--yes"]);
+    expect(tokenize("   ")).toEqual([]);
+  });
+
+  it("keeps quoted whitespace and joins adjacent quoted parts", () => {
+    expect(tokenize(`say "hello world" 'a  b'`)).toEqual(["say", "hello world", "a  b"]);
+    expect(tokenize(`pre"fix"'ed'`)).toEqual(["prefixed"]);
+  });
+
+  it("keeps empty quoted strings as tokens", () => {
+    expect(tokenize(`a "" ''`)).toEqual(["a", "", ""]);
+  });
+
+  it("applies backslash escapes outside and inside double quotes", () => {
+    expect(tokenize("a\\ b")).toEqual(["a b"]);
+    expect(tokenize(`"line\\nbreak" "tab\\there" "say \\"hi\\"" "back\\\\slash"`)).toEqual([
+      "line\nbreak",
+      "tab\there",
+      `say "hi"`,
+      "back\\slash",
+    ]);
+  });
+
+  it("takes single-quoted text literally", () => {
+    expect(tokenize(`'no \\n escapes "here"'`)).toEqual([`no \\n escapes "here"`]);
+  });
+
+  it("rejects unterminated quotes and a trailing backslash", () => {
+    expect(() => tokenize(`say "hello`)).toThrow(new UsageError("Unterminated double quote"));
+    expect(() => tokenize("say 'hello")).toThrow(new UsageError("Unterminated single quote"));
+    expect(() => tokenize("say \\")).toThrow(new UsageError("Trailing backslash at end of input"));
+  });
+});
+
+describe("parseArgs", () => {
+  it("separates positionals from flags", () => {
+    expect(parseArgs(["2", "--to", "0xabc", "-y"], FLAGS)).toEqual({
+      positionals: ["2"],
+      flags: { to: "0xabc", yes: true },
+    });
+  });
+
+  it("accepts --flag=value, keeping any further equals signs", () => {
+    expect(parseArgs(["--to=a=b"], FLAGS).flags).toEqual({ to: "a=b" });
+    expect(parseArgs(["--to="], FLAGS).flags).toEqual({ to: "" });
+  });
+
+  it("lets the last of a repeated flag win", () => {
+    expect(parseArgs(["--to", "first", "-t", "second", "--to=third"], FLAGS).flags).toEqual({ to: "third" });
+  });
+
+  it("treats everything after -- as positionals", () => {
+    expect(parseArgs(["--", "--to", "-y"], FLAGS)).toEqual({ positionals: ["--to", "-y"], flags: {} });
+  });
+
+  it("treats a lone dash and negative numbers as positionals", () => {
+    expect(parseArgs(["-", "-5", "-0.5"], FLAGS).positionals).toEqual(["-", "-5", "-0.5"]);
+  });
+
+  it("rejects unknown flags, missing values and values for boolean flags", () => {
+    expect(() => parseArgs(["--from", "x"], FLAGS)).toThrow(new UsageError("Unknown option: --from"));
+    expect(() => parseArgs(["-x"], FLAGS)).toThrow(new UsageError("Unknown option: -x"));
+    expect(() => parseArgs(["--to"], FLAGS)).toThrow(new UsageError("Option --to requires a value"));
+    expect(() => parseArgs(["--yes=true"], FLAGS)).toThrow(new UsageError("Option --yes does not take a value"));
+  });
+});
+
+describe("parseCommandInput", () => {
+  it("maps positionals and flags onto the schema", () => {
+    expect(parseCommandInput(mintCommand, tokenize("3 --to 0xabc -y"))).toEqual({ qty: 3, to: "0xabc", yes: true });
+  });
+
+  it("applies schema defaults for omitted optional args", () => {
+    expect(parseCommandInput(mintCommand, [])).toEqual({ qty: 1 });
+  });
+
+  it("reports schema failures with the field name", () => {
+    expect(() => parseCommandInput(mintCommand, ["0"])).toThrow(UsageError);
+    expect(() => parseCommandInput(mintCommand, ["0"])).toThrow(/^qty: /);
+  });
+
+  it("rejects extra positionals", () => {
+    expect(() => parseCommandInput(mintCommand, ["1", "2"])).toThrow(new UsageError("Unexpected argument: 2"));
+  });
+
+  it("collects the rest into a variadic arg", () => {
+    expect(parseCommandInput(helpCommand, ["mint", "transfer"])).toEqual({ topics: ["mint", "transfer"] });
+    expect(parseCommandInput(helpCommand, [])).toEqual({ topics: [] });
+  });
+
+  it("requires non-optional args", () => {
+    const transferCommand = defineCommand({
+      name: "transfer",
+      description: "Send a token",
+      args: [{ name: "to", description: "Receiver" }],
+      handler: async () => {},
+    });
+    expect(() => parseCommandInput(transferCommand, [])).toThrow(new UsageError("Missing required argument: to"));
+  });
+});
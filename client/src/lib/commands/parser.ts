@@ -0,0 +1,174 @@
+import { type CommandDefinition, type FlagSpec } from "./registry";
+
+// Thrown for anything the user typed wrong; printed with the command's usage
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+};
+
+// Splits a command line into tokens, shell style:
+//   - whitespace separates tokens unless quoted or escaped
+//   - "double quotes" allow backslash escapes (\n, \t, \", \\)
+//   - 'single quotes' are taken literally
+//   - a backslash outside quotes escapes the next character
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "\\") {
+      if (i + 1 >= input.length) {
+        throw new UsageError("Trailing backslash at end of input");
+      }
+      const next = input[++i];
+      current += ESCAPES[next] ?? next;
+      inToken = true;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new UsageError(`Unterminated ${quote === '"' ? "double" : "single"} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+function findFlag(flags: FlagSpec[], token: string): FlagSpec | undefined {
+  if (token.startsWith("--")) {
+    return flags.find((flag) => flag.name === token.slice(2));
+  }
+  return flags.find((flag) => flag.short === token.slice(1));
+}
+
+// Separates positionals from flags. Supported forms:
+//   --flag value, --flag=value, -f value, -f (boolean), -- (end of flags)
+export function parseArgs(tokens: string[], flags: FlagSpec[] = []): ParsedArgs {
+  const result: ParsedArgs = { positionals: [], flags: {} };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === "--") {
+      result.positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    // Lone "-" and negative numbers are positionals
+    if (!token.startsWith("-") || token === "-" || /^-\d/.test(token)) {
+      result.positionals.push(token);
+      continue;
+    }
+
+    const eq = token.startsWith("--") ? token.indexOf("=") : -1;
+    const name = eq === -1 ? token : token.slice(0, eq);
+    const flag = findFlag(flags, name);
+    if (!flag) {
+      throw new UsageError(`Unknown option: ${name}`);
+    }
+
+    if (!flag.value) {
+      if (eq !== -1) {
+        throw new UsageError(`Option --${flag.name} does not take a value`);
+      }
+      result.flags[flag.name] = true;
+    } else if (eq !== -1) {
+      result.flags[flag.name] = token.slice(eq + 1);
+    } else {
+      if (i + 1 >= tokens.length) {
+        throw new UsageError(`Option --${flag.name} requires a value`);
+      }
+      result.flags[flag.name] = tokens[++i];
+    }
+  }
+
+  return result;
+}
+
+// Maps tokens onto the command's declared args and flags and validates the
+// result against its schema. The returned object is what the handler gets as `input`.
+export function parseCommandInput<TInput>(command: CommandDefinition<TInput>, tokens: string[]): TInput {
+  const { positionals, flags } = parseArgs(tokens, command.flags);
+  const specs = command.args ?? [];
+  const raw: Record<string, unknown> = { ...flags };
+
+  specs.forEach((spec, index) => {
+    if (spec.variadic) {
+      raw[spec.name] = positionals.slice(index);
+    } else if (index < positionals.length) {
+      raw[spec.name] = positionals[index];
+    } else if (!spec.optional) {
+      throw new UsageError(`Missing required argument: ${spec.name}`);
+    }
+  });
+
+  const hasVariadic = specs.some((spec) => spec.variadic);
+  if (!hasVariadic && positionals.length > specs.length) {
+    throw new UsageError(`Unexpected argument: ${positionals[specs.length]}`);
+  }
+
+  if (!command.schema) {
+    return raw as TInput;
+  }
+
+  const parsed = command.schema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.length ? `${issue.path.join(".")}: ` : "";
+    throw new UsageError(`${field}${issue.message}`);
+  }
+  return parsed.data;
+}
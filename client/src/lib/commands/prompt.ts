@@ -0,0 +1,91 @@
+// Ctrl+C ends the running command: a pending prompt rejects with this, and so does
+// anything waiting on the command's abort signal. The terminal shows it as ^C.
+export class CommandCancelledError extends Error {
+  constructor() {
+    super("Cancelled");
+    this.name = "CommandCancelledError";
+  }
+}
+
+export interface SelectOption<T> {
+  label: string;
+  value: T;
+  // Shown dimmed after the label
+  description?: string;
+}
+
+export interface TextOptions {
+  // Answer used when the input is left empty
+  default?: string;
+  // Returns a message for answers that shouldn't be accepted; the prompt stays open
+  validate?: (value: string) => string | undefined;
+}
+
+// Questions a running command can ask on the terminal's input line
+export interface Prompt {
+  // Only y or yes counts as yes; an empty answer takes `default` (no)
+  confirm(message: string, options?: { default?: boolean }): Promise<boolean>;
+  // Picked with the arrow keys and Enter, or by number
+  select<T>(message: string, options: SelectOption<T>[]): Promise<T>;
+  text(message: string, options?: TextOptions): Promise<string>;
+  // Typed masked and left out of the echoed transcript
+  password(message: string, options?: Omit<TextOptions, "default">): Promise<string>;
+}
+
+interface PendingBase {
+  message: string;
+  reject: (error: Error) => void;
+}
+
+// The question currently holding the input line, as the terminal renders it
+export type PendingPrompt =
+  | (PendingBase & { kind: "confirm"; default: boolean; resolve: (value: boolean) => void })
+  | (PendingBase & { kind: "select"; options: SelectOption<unknown>[]; selected: number; resolve: (value: unknown) => void })
+  | (PendingBase & {
+      kind: "text" | "password";
+      default?: string;
+      validate?: TextOptions["validate"];
+      // Message from the last rejected answer
+      error?: string;
+      resolve: (value: string) => void;
+    });
+
+// Builds the Prompt handed to commands; `show` puts the question on screen and
+// the terminal settles it through the pending prompt's resolve/reject
+export function createPrompt(show: (pending: PendingPrompt) => void): Prompt {
+  return {
+    confirm: (message, options = {}) => new Promise((resolve, reject) => {
+      show({ kind: "confirm", message, default: options.default ?? false, resolve, reject });
+    }),
+    select: <T>(message: string, options: SelectOption<T>[]) => new Promise<T>((resolve, reject) => {
+      if (options.length === 0) {
+        reject(new Error(`Nothing to choose from for: ${message}`));
+        return;
+      }
+      show({ kind: "select", message, options, selected: 0, resolve: resolve as (value: unknown) => void, reject });
+    }),
+    text: (message, options = {}) => new Promise((resolve, reject) => {
+      show({ kind: "text", message, default: options.default, validate: options.validate, resolve, reject });
+    }),
+    password: (message, options = {}) => new Promise((resolve, reject) => {
+      show({ kind: "password", message, validate: options.validate, resolve, reject });
+    }),
+  };
+}
+
+// Text shown in place of the `>` prompt symbol, e.g. "Proceed? [y/N]"
+export function promptLabel(pending: PendingPrompt): string {
+  switch (pending.kind) {
+    case "confirm":
+      return `${pending.message} ${pending.default ? "[Y/n]" : "[y/N]"}`;
+    case "text":
+      return pending.default ? `${pending.message} (${pending.default})` : pending.message;
+    default:
+      return pending.message;
+  }
+}
+
+export function parseConfirm(answer: string, fallback: boolean): boolean {
+  const trimmed = answer.trim();
+  return trimmed ? /^y(es)?$/i.test(trimmed) : fallback;
+}
@@ -0,0 +1,126 @@
+import { type z } from "zod";
+import { type TerminalLine, type CommandType } from "@shared/schema";
+import { type Web3ContextType } from "@/contexts/Web3Context";
+import { type Prompt } from "./prompt";
+
+// Kinds of values the terminal knows how to suggest for tab completion
+export type ValueKind = "address" | "tokenId" | "chain";
+
+// Positional argument declared by a command
+export interface ArgSpec {
+  name: string;
+  description: string;
+  optional?: boolean;
+  // Collects all remaining positionals into an array; must be last
+  variadic?: boolean;
+  // Fixed set of values, e.g. subcommands
+  choices?: string[];
+  kind?: ValueKind;
+}
+
+// `--name <value>` / `-s <value>` option; boolean when `value` is omitted
+export interface FlagSpec {
+  name: string;
+  short?: string;
+  description: string;
+  // Placeholder shown in usage, e.g. "address" for `--to <address>`
+  value?: string;
+  choices?: string[];
+  kind?: ValueKind;
+}
+
+// Everything a command handler can touch while it runs
+export interface CommandContext<TInput = Record<string, unknown>> {
+  input: TInput;
+  web3: Web3ContextType;
+  registry: CommandRegistry;
+  history: {
+    entries: string[];
+    clear: () => void;
+  };
+  // Whether the connected wallet holds the drop's token, which reveals holder-only commands
+  isHolder: boolean;
+  print: (type: TerminalLine["type"], text: string) => void;
+  clear: () => void;
+  // Asks the user something on the input line; answers reject with
+  // CommandCancelledError on Ctrl+C, which ends the command
+  prompt: Prompt;
+  // Aborted with a CommandCancelledError on Ctrl+C while the command runs; pass it
+  // to anything that waits, e.g. on a transaction
+  signal: AbortSignal;
+}
+
+export interface CommandDefinition<TInput = Record<string, unknown>> {
+  name: CommandType;
+  aliases?: string[];
+  description: string;
+  args?: ArgSpec[];
+  flags?: FlagSpec[];
+  // Validates and coerces the parsed args/flags object keyed by spec name
+  schema?: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  requiresWallet?: boolean;
+  // Left out of `help` and completion for wallets that don't hold the token;
+  // the server enforces the actual access
+  holderOnly?: boolean;
+  handler(ctx: CommandContext<TInput>): Promise<void>;
+}
+
+// A command of any input type, as the registry holds it (`handler` is declared as
+// a method so typed commands convert to this). Only the command's own schema knows
+// the shape of its input, so callers get it from parseCommandInput and narrow
+// anything they read from it themselves.
+export type AnyCommand = CommandDefinition<unknown>;
+
+// Identity helper so `input` is typed from the command's schema
+export function defineCommand<TInput = Record<string, unknown>>(
+  command: CommandDefinition<TInput>,
+): CommandDefinition<TInput> {
+  return command;
+}
+
+export class CommandRegistry {
+  private commands: Map<string, AnyCommand>;
+  private aliases: Map<string, string>;
+
+  constructor() {
+    this.commands = new Map();
+    this.aliases = new Map();
+  }
+
+  register(command: AnyCommand): this {
+    const names = [command.name, ...(command.aliases ?? [])];
+    for (const name of names) {
+      if (this.commands.has(name) || this.aliases.has(name)) {
+        throw new Error(`Command name already registered: ${name}`);
+      }
+    }
+
+    this.commands.set(command.name, command);
+    for (const alias of command.aliases ?? []) {
+      this.aliases.set(alias, command.name);
+    }
+    return this;
+  }
+
+  resolve(name: string): AnyCommand | undefined {
+    const key = name.toLowerCase();
+    return this.commands.get(key) ?? this.commands.get(this.aliases.get(key) ?? "");
+  }
+
+  // Holder-only commands are included only when `holder` is true
+  list(holder: boolean = true): AnyCommand[] {
+    return Array.from(this.commands.values()).filter((command) => holder || !command.holderOnly);
+  }
+}
+
+// e.g. "mint [qty] [--to <address>]" or "send <to> <amount>"
+export function formatUsage(command: AnyCommand): string {
+  const args = (command.args ?? []).map((arg) => {
+    const name = arg.variadic ? `${arg.name}...` : arg.name;
+    return arg.optional ? `[${name}]` : `<${name}>`;
+  });
+  const flags = (command.flags ?? []).map((flag) =>
+    flag.value ? `[--${flag.name} <${flag.value}>]` : `[--${flag.name}]`,
+  );
+  return [command.name, ...args, ...flags].join(" ");
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { type Transaction } from "@shared/schema";
+import { defineCommand } from "./registry";
+import { getChain } from "@/lib/deployments";
+
+const STATUS_ICONS: Record<Transaction["status"], string> = {
+  pending: "…",
+  confirmed: "✓",
+  failed: "✗",
+};
+
+function shortHash(hash: string): string {
+  return `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+}
+
+// Single-line status shown in the terminal and updated in place as the transaction settles
+export function formatTransactionLine(tx: Transaction): string {
+  const head = `${STATUS_ICONS[tx.status]} ${tx.description} ${shortHash(tx.hash)}`;
+  switch (tx.status) {
+    case "pending":
+      return `${head} pending...`;
+    case "confirmed":
+      return `${head} confirmed in block ${tx.blockNumber} (${tx.confirmations ?? 1} confirmation${tx.confirmations === 1 ? "" : "s"})`;
+    case "failed":
+      return `${head} failed: ${tx.error ?? "unknown reason"}`;
+  }
+}
+
+export const txCommand = defineCommand({
+  name: "tx",
+  description: "List recent transactions or inspect one",
+  args: [
+    { name: "hash", description: "Transaction hash or prefix", optional: true },
+  ],
+  schema: z.object({
+    hash: z.string().optional(),
+  }),
+  handler: async ({ input, web3, print }) => {
+    print("output", "");
+
+    if (!input.hash) {
+      const transactions = web3.transactions.list();
+      if (transactions.length === 0) {
+        print("info", "No transactions sent from this browser yet");
+      } else {
+        transactions.forEach((tx) => {
+          print("output", `  ${STATUS_ICONS[tx.status]} ${shortHash(tx.hash)}  ${tx.status.padEnd(9)} ${tx.description}`);
+        });
+        print("output", "");
+        print("output", "Run 'tx <hash>' for details");
+      }
+      print("output", "");
+      return;
+    }
+
+    const tx = web3.transactions.find(input.hash);
+    if (!tx) {
+      print("error", `No unique transaction matches ${input.hash}`);
+      print("output", "");
+      return;
+    }
+
+    const explorer = getChain(tx.chainId).blockExplorers?.[0]?.url;
+    print("output", `  Hash:          ${tx.hash}`);
+    print("output", `  Type:          ${tx.kind}`);
+    print("output", `  Description:   ${tx.description}`);
+    print(tx.status === "failed" ? "error" : "output", `  Status:        ${tx.status}`);
+    if (tx.blockNumber !== undefined) {
+      print("output", `  Block:         ${tx.blockNumber}`);
+    }
+    if (tx.confirmations !== undefined) {
+      print("output", `  Confirmations: ${tx.confirmations}`);
+    }
+    if (tx.error) {
+      print("error", `  Error:         ${tx.error}`);
+    }
+    print("output", `  Submitted:     ${new Date(tx.submittedAt).toLocaleString()}`);
+    if (explorer) {
+      print("output", `  Explorer:      ${explorer}/tx/${tx.hash}`);
+    }
+    print("output", "");
+  },
+});
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { defineCommand } from "./registry";
+import { fetchVault } from "@/lib/vault";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const vaultCommand = defineCommand({
+  name: "vault",
+  description: "List the perks unlocked by holding the token, or download one",
+  args: [
+    { name: "file", description: "File to download", optional: true },
+  ],
+  schema: z.object({
+    file: z.string().optional(),
+  }),
+  requiresWallet: true,
+  holderOnly: true,
+  handler: async ({ input, print }) => {
+    print("output", "");
+    try {
+      const vault = await fetchVault();
+      if (input.file) {
+        const item = vault.items.find((entry) => entry.name === input.file);
+        if (!item) {
+          throw new Error(`No file named ${input.file}; run 'vault' to list them`);
+        }
+        window.open(item.url, "_blank");
+        print("info", `✓ Downloading ${item.name}`);
+      } else if (vault.items.length === 0) {
+        print("info", "The vault is empty");
+      } else {
+        const width = Math.max(...vault.items.map((item) => item.name.length)) + 2;
+        print("info", `Vault (holders of token #${vault.tokenId}):`);
+        vault.items.forEach((item) => {
+          print("output", `  ${item.name.padEnd(width)}${formatSize(item.size).padStart(10)}  ${item.updatedAt.slice(0, 10)}`);
+        });
+        print("output", "");
+        print("output", "Run 'vault <file>' to download");
+      }
+    } catch (error) {
+      print("error", `Vault unavailable: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { defineCommand } from "./registry";
+import { WALLET_OPTIONS, WALLET_LABELS, INAPP_AUTH_OPTIONS } from "@/lib/wallets";
+import { getDeploymentByChainId } from "@/lib/deployments";
+import { names } from "@/lib/names";
+import { getSession, signIn, signOut } from "@/lib/auth";
+import { syncAddressBook } from "@/lib/addressBook";
+
+const CONNECT_PROMPTS: Record<(typeof WALLET_OPTIONS)[number], string> = {
+  metamask: "Please approve the connection in MetaMask",
+  coinbase: "Please approve the connection in Coinbase Wallet",
+  walletconnect: "Scan the QR code with your mobile wallet",
+  inapp: "Complete sign-in in the popup window",
+};
+
+export const connectCommand = defineCommand({
+  name: "connect",
+  description: "Connect your wallet to the selected network",
+  args: [
+    { name: "wallet", description: "Wallet to connect", optional: true, choices: [...WALLET_OPTIONS] },
+  ],
+  flags: [
+    { name: "auth", description: "Sign-in method for the in-app wallet", value: "method", choices: [...INAPP_AUTH_OPTIONS] },
+  ],
+  schema: z.object({
+    wallet: z.enum(WALLET_OPTIONS).default("metamask"),
+    auth: z.enum(INAPP_AUTH_OPTIONS).optional(),
+  }),
+  handler: async ({ input, web3, print }) => {
+    const { wallet, connectWallet, deployment } = web3;
+
+    print("output", "");
+    if (wallet?.isConnected) {
+      print("info", `Already connected: ${await names.display(wallet.address)}${wallet.option ? ` (${WALLET_LABELS[wallet.option]})` : ""}`);
+      print("info", `Chain ID: ${wallet.chainId}${wallet.chainId === deployment.chain.id ? ` (${deployment.label})` : ""}`);
+      print("info", "Run 'disconnect' first to use another wallet");
+    } else {
+      print("info", `Connecting ${WALLET_LABELS[input.wallet]}...`);
+      print("info", CONNECT_PROMPTS[input.wallet]);
+      try {
+        await connectWallet(input.wallet, input.auth);
+        print("info", "✓ Wallet connected successfully");
+        print("info", `✓ ${deployment.label} selected`);
+      } catch (error) {
+        print("error", `Connection failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+    print("output", "");
+  },
+});
+
+export const disconnectCommand = defineCommand({
+  name: "disconnect",
+  description: "Disconnect the current wallet",
+  requiresWallet: true,
+  handler: async ({ web3, print }) => {
+    print("output", "");
+    try {
+      await web3.disconnectWallet();
+      print("info", "✓ Wallet disconnected");
+    } catch (error) {
+      print("error", `Disconnect failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const balanceCommand = defineCommand({
+  name: "balance",
+  aliases: ["bal"],
+  description: "Check your USDC and ETH balances",
+  requiresWallet: true,
+  handler: async ({ web3, print }) => {
+    print("output", "");
+    print("info", "Fetching balances...");
+    try {
+      const balances = await web3.getBalance();
+      print("output", "");
+      print("info", `USDC Balance: ${balances.usdc} USDC`);
+      print("info", `ETH Balance:  ${balances.native} ETH`);
+    } catch (error) {
+      print("error", `Failed to fetch balances: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const whoamiCommand = defineCommand({
+  name: "whoami",
+  description: "Show the connected account, for pasting into support tickets",
+  requiresWallet: true,
+  handler: async ({ web3, print }) => {
+    const { wallet, deployment } = web3;
+    if (!wallet) return;
+
+    print("output", "");
+    const name = await names.lookup(wallet.address).catch(() => null);
+    const chainLabel = getDeploymentByChainId(wallet.chainId)?.label ?? "unknown network";
+    print("output", `  Address:          ${wallet.address}`);
+    print("output", `  Name:             ${name ?? "(none)"}`);
+    print("output", `  Chain:            ${wallet.chainId} (${chainLabel})`);
+    print("output", `  Selected network: ${deployment.label} (${deployment.chain.id})${web3.isWrongChain ? " - wallet is on another chain" : ""}`);
+    print("output", `  Wallet:           ${wallet.option ? WALLET_LABELS[wallet.option] : "in-memory test wallet"}`);
+    print("output", `  Connected since:  ${wallet.connectedAt ? new Date(wallet.connectedAt).toISOString() : "unknown"}`);
+    print("output", "");
+  },
+});
+
+export const loginCommand = defineCommand({
+  name: "login",
+  description: "Sign in to the server with your wallet (Sign-In With Ethereum)",
+  requiresWallet: true,
+  handler: async ({ web3, print }) => {
+    const { wallet } = web3;
+    if (!wallet) return;
+
+    print("output", "");
+    try {
+      const current = await getSession();
+      if (current && current.address.toLowerCase() === wallet.address.toLowerCase()) {
+        print("info", `Already signed in as ${await names.display(current.address)} until ${new Date(current.expiresAt).toLocaleString()}`);
+        print("output", "");
+        return;
+      }
+
+      print("info", "Please sign the login message in your wallet");
+      const session = await signIn(wallet.address, wallet.chainId, web3.signMessage);
+      print("info", `✓ Signed in as ${await names.display(session.address)}`);
+      print("output", `  Session expires ${new Date(session.expiresAt).toLocaleString()}`);
+      await syncAddressBook().catch((error) => console.warn("Could not load the address book:", error));
+    } catch (error) {
+      print("error", `Login failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const logoutCommand = defineCommand({
+  name: "logout",
+  description: "End your server session",
+  handler: async ({ print }) => {
+    print("output", "");
+    try {
+      await signOut();
+      print("info", "Signed out");
+    } catch (error) {
+      print("error", `Logout failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
+
+export const accountCommand = defineCommand({
+  name: "account",
+  description: "List connected accounts or switch to another one",
+  args: [
+    { name: "action", description: "list or switch", optional: true, choices: ["list", "switch"] },
+    { name: "address", description: "Connected account to switch to (omit to pick in your wallet)", optional: true, kind: "address" },
+  ],
+  schema: z.object({
+    action: z.enum(["list", "switch"]).default("list"),
+    address: z.string().optional(),
+  }),
+  requiresWallet: true,
+  handler: async ({ input, web3, print }) => {
+    print("output", "");
+    if (input.action === "list") {
+      web3.accounts.forEach((address, index) => {
+        print("output", `${index === 0 ? "*" : " "} ${index + 1}. ${address}`);
+      });
+      if (web3.accounts.length === 1) {
+        print("output", "");
+        print("output", "Run 'account switch' to pick another account in your wallet");
+      }
+      print("output", "");
+      return;
+    }
+
+    try {
+      // Accept a 1-based index from `account list` as well as an address
+      const address = input.address && /^\d+$/.test(input.address)
+        ? web3.accounts[Number(input.address) - 1]
+        : input.address;
+      if (input.address && !address) {
+        throw new Error(`No account #${input.address}`);
+      }
+      print("info", address ? `Switching to ${address}...` : "Pick an account in your wallet...");
+      await web3.switchAccount(address);
+    } catch (error) {
+      print("error", `Account switch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    print("output", "");
+  },
+});
@@ -0,0 +1,79 @@
+import { base, baseSepolia, anvil, defineChain, type Chain } from "thirdweb/chains";
+
+const STORAGE_KEY = "cmd402:network";
+
+// Everything the app needs to talk to one instance of the drop
+export interface Deployment {
+  // Name users type in `network use <name>`
+  name: DeploymentName;
+  label: string;
+  chain: Chain;
+  // Empty when not configured for this network
+  nftContract: string;
+  paymentToken: string;
+  tokenId: number;
+}
+
+export const DEPLOYMENT_NAMES = ["base", "base-sepolia", "local"] as const;
+
+export type DeploymentName = (typeof DEPLOYMENT_NAMES)[number];
+
+// Applies an RPC override from the environment, keeping the chain's metadata
+function withRpc(chain: Chain, rpc: string | undefined): Chain {
+  return rpc ? defineChain({ ...chain, rpc }) : chain;
+}
+
+export const deployments: Record<DeploymentName, Deployment> = {
+  base: {
+    name: "base",
+    label: "Base",
+    chain: withRpc(base, import.meta.env.VITE_BASE_RPC_URL),
+    nftContract: "0x859078e89E58B0Ab0021755B95360f48fBa763dd",
+    paymentToken: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC
+    tokenId: 0,
+  },
+  "base-sepolia": {
+    name: "base-sepolia",
+    label: "Base Sepolia",
+    chain: withRpc(baseSepolia, import.meta.env.VITE_BASE_SEPOLIA_RPC_URL),
+    nftContract: import.meta.env.VITE_BASE_SEPOLIA_NFT_CONTRACT || "",
+    paymentToken: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", // USDC (Circle testnet)
+    tokenId: Number(import.meta.env.VITE_BASE_SEPOLIA_TOKEN_ID || 0),
+  },
+  // anvil or hardhat node; deploy the test contracts and point these at them
+  local: {
+    name: "local",
+    label: "Local",
+    chain: withRpc(anvil, import.meta.env.VITE_LOCAL_RPC_URL),
+    nftContract: import.meta.env.VITE_LOCAL_NFT_CONTRACT || "",
+    paymentToken: import.meta.env.VITE_LOCAL_PAYMENT_TOKEN || "",
+    tokenId: Number(import.meta.env.VITE_LOCAL_TOKEN_ID || 0),
+  },
+};
+
+export function isDeploymentName(name: string): name is DeploymentName {
+  return (DEPLOYMENT_NAMES as readonly string[]).includes(name);
+}
+
+export function isConfigured(deployment: Deployment): boolean {
+  return Boolean(deployment.nftContract && deployment.paymentToken);
+}
+
+export function getDeploymentByChainId(chainId: number): Deployment | undefined {
+  return Object.values(deployments).find((deployment) => deployment.chain.id === chainId);
+}
+
+// Chain object for a chain ID, falling back to thirdweb's registry for chains we don't deploy to
+export function getChain(chainId: number): Chain {
+  return getDeploymentByChainId(chainId)?.chain ?? defineChain(chainId);
+}
+
+// Last network picked with `network use`, else VITE_NETWORK, else Base
+export function getInitialDeployment(): Deployment {
+  const saved = localStorage.getItem(STORAGE_KEY) ?? import.meta.env.VITE_NETWORK;
+  return saved && isDeploymentName(saved) ? deployments[saved] : deployments.base;
+}
+
+export function saveDeploymentChoice(name: DeploymentName) {
+  localStorage.setItem(STORAGE_KEY, name);
+}
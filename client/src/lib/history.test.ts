@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { appendHistory, expandHistory, searchHistory } from "./history";
+
+const ENTRIES = ["connect", "mint 2", "transfer alice.base.eth 0", "balance"];
+
+describe("expandHistory", () => {
+  it("expands !! to the previous command", () => {
+    expect(expandHistory("!!", ENTRIES)).toBe("balance");
+  });
+
+  it("expands !n to command number n, counting from 1", () => {
+    expect(expandHistory("!1", ENTRIES)).toBe("connect");
+    expect(expandHistory("!3", ENTRIES)).toBe("transfer alice.base.eth 0");
+  });
+
+  it("expands !-n to n commands back", () => {
+    expect(expandHistory("!-1", ENTRIES)).toBe("balance");
+    expect(expandHistory("!-3", ENTRIES)).toBe("mint 2");
+  });
+
+  it("appends whatever follows the designator", () => {
+    expect(expandHistory("!2 --to alice.base.eth", ENTRIES)).toBe("mint 2 --to alice.base.eth");
+    expect(expandHistory("!! -y", ENTRIES)).toBe("balance -y");
+  });
+
+  it("leaves input without a leading designator alone", () => {
+    expect(expandHistory("mint 1", ENTRIES)).toBe("mint 1");
+    expect(expandHistory("echo !!", ENTRIES)).toBe("echo !!");
+    expect(expandHistory("!mint", ENTRIES)).toBe("!mint");
+  });
+
+  it("rejects events that don't exist", () => {
+    expect(() => expandHistory("!!", [])).toThrow("!!: event not found");
+    expect(() => expandHistory("!0", ENTRIES)).toThrow("!0: event not found");
+    expect(() => expandHistory("!5", ENTRIES)).toThrow("!5: event not found");
+    expect(() => expandHistory("!-5", ENTRIES)).toThrow("!-5: event not found");
+  });
+});
+
+describe("searchHistory", () => {
+  it("finds the newest entry containing the query", () => {
+    expect(searchHistory([...ENTRIES, "mint 5"], "mint")).toBe(4);
+    expect(searchHistory(ENTRIES, "alice")).toBe(2);
+  });
+
+  it("searches backwards from `from`, inclusive, for the next match", () => {
+    const entries = ["mint 1", "balance", "mint 2", "mint 3"];
+    expect(searchHistory(entries, "mint", 3)).toBe(3);
+    expect(searchHistory(entries, "mint", 2)).toBe(2);
+    expect(searchHistory(entries, "mint", 1)).toBe(0);
+  });
+
+  it("starts from the newest entry when `from` is past the end", () => {
+    expect(searchHistory(ENTRIES, "connect", 99)).toBe(0);
+  });
+
+  it("returns -1 when nothing matches", () => {
+    expect(searchHistory(ENTRIES, "vault")).toBe(-1);
+    expect(searchHistory(ENTRIES, "mint", -1)).toBe(-1);
+    expect(searchHistory([], "")).toBe(-1);
+  });
+});
+
+describe("appendHistory", () => {
+  it("skips consecutive duplicates", () => {
+    expect(appendHistory(["mint 1"], "mint 1")).toEqual(["mint 1"]);
+    expect(appendHistory(["mint 1", "balance"], "mint 1")).toEqual(["mint 1", "balance", "mint 1"]);
+  });
+
+  it("keeps only the newest `limit` entries", () => {
+    expect(appendHistory(["a", "b", "c"], "d", 3)).toEqual(["b", "c", "d"]);
+  });
+});
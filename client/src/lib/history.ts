@@ -0,0 +1,67 @@
+const STORAGE_PREFIX = "cmd402:history";
+
+// Maximum number of commands kept per wallet; override with VITE_HISTORY_SIZE
+export const HISTORY_SIZE = Number(import.meta.env.VITE_HISTORY_SIZE) || 500;
+
+// History is kept per wallet so shared machines don't mix users' commands
+function storageKey(address?: string): string {
+  return `${STORAGE_PREFIX}:${address ? address.toLowerCase() : "guest"}`;
+}
+
+export function loadHistory(address?: string): string[] {
+  try {
+    const raw = localStorage.getItem(storageKey(address));
+    const entries = raw ? JSON.parse(raw) : [];
+    return Array.isArray(entries) ? entries.slice(-HISTORY_SIZE) : [];
+  } catch (error) {
+    console.error("Error loading command history:", error);
+    return [];
+  }
+}
+
+export function saveHistory(address: string | undefined, entries: string[]) {
+  try {
+    localStorage.setItem(storageKey(address), JSON.stringify(entries));
+  } catch (error) {
+    console.error("Error saving command history:", error);
+  }
+}
+
+// Appends an entry, skipping consecutive duplicates and trimming to the size cap
+export function appendHistory(entries: string[], entry: string, limit: number = HISTORY_SIZE): string[] {
+  if (entries[entries.length - 1] === entry) return entries;
+  return [...entries, entry].slice(-limit);
+}
+
+// Expands a leading bash-style event designator:
+//   !!  previous command, !n  command number n, !-n  n commands back
+// Anything after the designator is appended, e.g. `!! --dry-run`.
+// Returns the input unchanged when it doesn't start with one.
+export function expandHistory(input: string, entries: string[]): string {
+  const match = input.match(/^!(!|-?\d+)(.*)$/);
+  if (!match) return input;
+
+  const [, designator, rest] = match;
+  let index: number;
+  if (designator === "!") {
+    index = entries.length - 1;
+  } else if (designator.startsWith("-")) {
+    index = entries.length + Number(designator);
+  } else {
+    index = Number(designator) - 1;
+  }
+
+  const entry = entries[index];
+  if (entry === undefined) {
+    throw new Error(`!${designator}: event not found`);
+  }
+  return entry + rest;
+}
+
+// Index of the newest entry at or before `from` containing `query`, or -1
+export function searchHistory(entries: string[], query: string, from: number = entries.length - 1): number {
+  for (let i = Math.min(from, entries.length - 1); i >= 0; i--) {
+    if (entries[i].includes(query)) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,79 @@
+import { nftMetadataSchema, type NFTMetadata } from "@shared/schema";
+
+// Tried in order until one answers; VITE_IPFS_GATEWAY puts a preferred gateway first
+export const IPFS_GATEWAYS = [
+  ...(import.meta.env.VITE_IPFS_GATEWAY ? [import.meta.env.VITE_IPFS_GATEWAY] : []),
+  "https://ipfs.io/ipfs/",
+  "https://cloudflare-ipfs.com/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+];
+
+const ARWEAVE_GATEWAY = "https://arweave.net/";
+const FETCH_TIMEOUT_MS = 10_000;
+
+// ERC1155 clients replace `{id}` with the token ID as 64 lowercase hex digits, no 0x
+export function substituteTokenId(uri: string, tokenId: bigint | number | string): string {
+  return uri.replace(/\{id\}/g, BigInt(tokenId).toString(16).padStart(64, "0"));
+}
+
+// HTTP URLs a token or image URI can be fetched from, in the order to try them
+export function resolveUri(uri: string): string[] {
+  if (uri.startsWith("ipfs://")) {
+    // Both ipfs://<cid>/path and the older ipfs://ipfs/<cid>/path are in use
+    const path = uri.slice("ipfs://".length).replace(/^ipfs\//, "");
+    return IPFS_GATEWAYS.map((gateway) => `${gateway.replace(/\/?$/, "/")}${path}`);
+  }
+  if (uri.startsWith("ar://")) {
+    return [`${ARWEAVE_GATEWAY}${uri.slice("ar://".length)}`];
+  }
+  return [uri];
+}
+
+// First gateway URL for displaying an image; data: and http(s) URIs pass through
+export function resolveImageUrl(uri: string): string {
+  return resolveUri(uri)[0];
+}
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchJson(uri: string): Promise<unknown> {
+  // Fully on-chain metadata comes as a data: URI and needs no request
+  if (uri.startsWith("data:")) {
+    const [header, payload] = uri.split(",", 2);
+    const text = header.endsWith(";base64") ? atob(payload) : decodeURIComponent(payload);
+    return JSON.parse(text);
+  }
+
+  let lastError: unknown;
+  for (const url of resolveUri(uri)) {
+    try {
+      const res = await fetchWithTimeout(url);
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${res.statusText}`);
+      }
+      return await res.json();
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(`Could not fetch ${uri}`);
+}
+
+// Fetches and validates a token's metadata from its `uri(tokenId)` value
+export async function fetchNftMetadata(uri: string, tokenId: bigint | number | string): Promise<NFTMetadata> {
+  const json = await fetchJson(substituteTokenId(uri, tokenId));
+  const parsed = nftMetadataSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid metadata: ${issue.path.join(".") || "root"} ${issue.message}`);
+  }
+  return parsed.data;
+}
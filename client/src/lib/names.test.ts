@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NameCache, isName, shortAddress, type NameResolver } from "./names";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const TTL_MS = 60_000;
+
+// Resolves from fixed records, counting lookups
+function createResolver(): NameResolver & { resolveName: ReturnType<typeof vi.fn>; lookupAddress: ReturnType<typeof vi.fn> } {
+  const records: Record<string, string> = { "alice.eth": ALICE, "bob.base.eth": BOB };
+  return {
+    resolveName: vi.fn(async (name: string) => records[name] ?? null),
+    lookupAddress: vi.fn(async (address: string) =>
+      Object.keys(records).find((name) => records[name].toLowerCase() === address.toLowerCase()) ?? null,
+    ),
+  };
+}
+
+describe("NameCache", () => {
+  let resolver: ReturnType<typeof createResolver>;
+  let names: NameCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resolver = createResolver();
+    names = new NameCache(resolver, TTL_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves names to checksummed addresses", async () => {
+    expect(await names.resolve("alice.eth")).toBe(ALICE);
+    expect(await names.resolve("Bob.Base.eth")).toBe(BOB);
+    expect(resolver.resolveName).toHaveBeenCalledWith("bob.base.eth");
+  });
+
+  it("passes addresses through without a lookup", async () => {
+    expect(await names.resolve("0xd8da6bf26964af9d7eed9e03e53415d37aa96045")).toBe("0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045");
+    expect(resolver.resolveName).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown names and input that is neither", async () => {
+    await expect(names.resolve("nobody.eth")).rejects.toThrow("Could not resolve nobody.eth");
+    await expect(names.resolve("alice")).rejects.toThrow("Not an address or name: alice");
+  });
+
+  it("looks up names for addresses", async () => {
+    expect(await names.lookup(BOB)).toBe("bob.base.eth");
+    expect(await names.lookup("0x3333333333333333333333333333333333333333")).toBeNull();
+    expect(await names.display(ALICE)).toBe("alice.eth (0x1111...1111)");
+    expect(await names.display("0x3333333333333333333333333333333333333333")).toBe("0x3333...3333");
+  });
+
+  it("answers repeated lookups from the cache", async () => {
+    await names.resolve("alice.eth");
+    await names.resolve("ALICE.eth");
+    await names.lookup(ALICE);
+    await names.lookup(ALICE.toUpperCase().replace("0X", "0x"));
+    expect(resolver.resolveName).toHaveBeenCalledTimes(1);
+    expect(resolver.lookupAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches misses too", async () => {
+    await expect(names.resolve("nobody.eth")).rejects.toThrow();
+    await expect(names.resolve("nobody.eth")).rejects.toThrow();
+    expect(resolver.resolveName).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one request between concurrent lookups", async () => {
+    await Promise.all([names.resolve("alice.eth"), names.resolve("alice.eth")]);
+    expect(resolver.resolveName).toHaveBeenCalledTimes(1);
+  });
+
+  it("looks names up again once the TTL has passed", async () => {
+    await names.resolve("alice.eth");
+    await names.lookup(ALICE);
+
+    vi.advanceTimersByTime(TTL_MS - 1);
+    await names.resolve("alice.eth");
+    await names.lookup(ALICE);
+    expect(resolver.resolveName).toHaveBeenCalledTimes(1);
+    expect(resolver.lookupAddress).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await names.resolve("alice.eth");
+    await names.lookup(ALICE);
+    expect(resolver.resolveName).toHaveBeenCalledTimes(2);
+    expect(resolver.lookupAddress).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries lookups that failed instead of caching the error", async () => {
+    resolver.resolveName.mockRejectedValueOnce(new Error("fetch failed"));
+    await expect(names.resolve("alice.eth")).rejects.toThrow("fetch failed");
+    expect(await names.resolve("alice.eth")).toBe(ALICE);
+    expect(resolver.resolveName).toHaveBeenCalledTimes(2);
+  });
+
+  it("forgets everything on clear", async () => {
+    await names.resolve("alice.eth");
+    names.clear();
+    await names.resolve("alice.eth");
+    expect(resolver.resolveName).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("isName", () => {
+  it("accepts dotted names and rejects addresses", () => {
+    expect(isName("alice.base.eth")).toBe(true);
+    expect(isName(ALICE)).toBe(false);
+    expect(isName("alice")).toBe(false);
+  });
+});
+
+describe("shortAddress", () => {
+  it("keeps the prefix and last four characters", () => {
+    expect(shortAddress("0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045")).toBe("0xd8dA...6045");
+  });
+});
@@ -0,0 +1,130 @@
+import { getAddress, isAddress } from "thirdweb";
+import { resolveAddress, resolveL2Name, resolveName, BASENAME_RESOLVER_ADDRESS } from "thirdweb/extensions/ens";
+import { base } from "thirdweb/chains";
+import { client } from "@/lib/thirdweb";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+// Names rarely change; five minutes keeps repeated commands off the RPC
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+// Looks names up in both directions; null when there is no record, and throws
+// when the lookup itself fails so the miss isn't cached
+export interface NameResolver {
+  resolveName(name: string): Promise<string | null>;
+  lookupAddress(address: string): Promise<string | null>;
+}
+
+// Basenames (*.base.eth) resolve on Base, everything else through ENS on mainnet
+export const thirdwebResolver: NameResolver = {
+  async resolveName(name) {
+    const address = name.endsWith(".base.eth")
+      ? await resolveAddress({
+          client,
+          name,
+          resolverAddress: BASENAME_RESOLVER_ADDRESS,
+          resolverChain: base,
+        })
+      : await resolveAddress({ client, name });
+    return address && address !== ZERO_ADDRESS ? address : null;
+  },
+
+  // Prefers the address's basename over its ENS name
+  async lookupAddress(address) {
+    const basename = await resolveL2Name({
+      client,
+      address: address as `0x${string}`,
+      resolverAddress: BASENAME_RESOLVER_ADDRESS,
+      resolverChain: base,
+    });
+    if (basename) return basename;
+
+    return resolveName({ client, address: address as `0x${string}` });
+  },
+};
+
+interface CacheEntry {
+  value: Promise<string | null>;
+  expiresAt: number;
+}
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function isName(input: string): boolean {
+  return !isAddress(input) && input.includes(".");
+}
+
+// Resolves names to addresses and back, caching both directions (misses included)
+// for `ttlMs`. Concurrent lookups of the same key share one request.
+export class NameCache {
+  private resolver: NameResolver;
+  private ttlMs: number;
+  private forward: Map<string, CacheEntry>;
+  private reverse: Map<string, CacheEntry>;
+
+  constructor(resolver: NameResolver = thirdwebResolver, ttlMs: number = DEFAULT_TTL_MS) {
+    this.resolver = resolver;
+    this.ttlMs = ttlMs;
+    this.forward = new Map();
+    this.reverse = new Map();
+  }
+
+  // Turns a user-typed address or name (alice.eth, alice.base.eth) into a checksummed address
+  async resolve(input: string): Promise<string> {
+    if (isAddress(input)) {
+      return getAddress(input);
+    }
+    if (!input.includes(".")) {
+      throw new Error(`Not an address or name: ${input}`);
+    }
+
+    const name = input.toLowerCase();
+    const address = await this.cached(this.forward, name, () => this.resolver.resolveName(name));
+    if (!address) {
+      throw new Error(`Could not resolve ${input}`);
+    }
+    return getAddress(address);
+  }
+
+  // Primary name of an address, or null
+  lookup(address: string): Promise<string | null> {
+    const key = address.toLowerCase();
+    return this.cached(this.reverse, key, () => this.resolver.lookupAddress(getAddress(address)));
+  }
+
+  // "alice.base.eth (0x1234...abcd)", or the short address when it has no name
+  async display(address: string): Promise<string> {
+    const name = await this.lookup(address).catch(() => null);
+    return name ? `${name} (${shortAddress(address)})` : shortAddress(address);
+  }
+
+  clear() {
+    this.forward.clear();
+    this.reverse.clear();
+  }
+
+  private cached(
+    cache: Map<string, CacheEntry>,
+    key: string,
+    load: () => Promise<string | null>,
+  ): Promise<string | null> {
+    const existing = cache.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.value;
+    }
+
+    const entry: CacheEntry = {
+      value: load(),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    // Failed lookups (RPC errors) are retried on the next call rather than cached
+    entry.value.catch(() => {
+      if (cache.get(key) === entry) cache.delete(key);
+    });
+    cache.set(key, entry);
+    return entry.value;
+  }
+}
+
+export const names = new NameCache();
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { checkPaymentAsset } from "./payments";
+import { type PaymentRequirement } from "@shared/schema";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const REQUIREMENT: PaymentRequirement = {
+  scheme: "exact",
+  network: "base",
+  chainId: 8453,
+  maxAmountRequired: "100000",
+  asset: USDC,
+  payTo: "0x1111111111111111111111111111111111111111",
+  resource: "/api/holders/export",
+  description: "Holder export",
+  mimeType: "text/csv",
+  maxTimeoutSeconds: 60,
+  nonce: `0x${"ab".repeat(32)}`,
+  extra: { name: "USD Coin", version: "2" },
+};
+
+describe("checkPaymentAsset", () => {
+  it("accepts the network's USDC in any case", () => {
+    expect(() => checkPaymentAsset(REQUIREMENT, USDC.toLowerCase())).not.toThrow();
+  });
+
+  it("rejects any other token", () => {
+    const requirement = { ...REQUIREMENT, asset: "0x2222222222222222222222222222222222222222" };
+    expect(() => checkPaymentAsset(requirement, USDC)).toThrow(
+      `Payment asks for token 0x2222222222222222222222222222222222222222, expected USDC at ${USDC}`,
+    );
+  });
+
+  it("rejects payments on networks without USDC configured", () => {
+    expect(() => checkPaymentAsset(REQUIREMENT, "")).toThrow("No USDC configured for this network");
+  });
+});
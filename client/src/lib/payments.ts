@@ -0,0 +1,118 @@
+import { toTokens, toUnits } from "thirdweb";
+import {
+  paymentRequiredResponseSchema,
+  paymentResponseSchema,
+  type PaymentPayload,
+  type PaymentRequiredResponse,
+  type PaymentRequirement,
+  type PaymentResponse,
+  type TransferAuthorization,
+} from "@shared/schema";
+import { type TypedData } from "@/lib/chain";
+
+const STORAGE_KEY = "cmd402:x402-spent";
+
+export const PAYMENT_HEADER = "X-PAYMENT";
+export const PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+export const USDC_DECIMALS = 6;
+
+// Most `fetch` may pay in one browser session, in USDC; override with VITE_FETCH_SPEND_CAP
+export const SPEND_CAP = toUnits(import.meta.env.VITE_FETCH_SPEND_CAP || "1", USDC_DECIMALS);
+
+export function formatUsdc(amount: bigint): string {
+  return `${toTokens(amount, USDC_DECIMALS)} USDC`;
+}
+
+// Base units of USDC paid for requests since the tab was opened
+export function getSessionSpend(): bigint {
+  try {
+    return BigInt(sessionStorage.getItem(STORAGE_KEY) ?? "0");
+  } catch (error) {
+    console.error("Error loading payment total:", error);
+    return 0n;
+  }
+}
+
+export function recordSpend(amount: bigint) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, (getSessionSpend() + amount).toString());
+  } catch (error) {
+    console.error("Error saving payment total:", error);
+  }
+}
+
+// The server picks the token to sign for; only pay in the selected network's USDC
+export function checkPaymentAsset(requirement: PaymentRequirement, paymentToken: string) {
+  if (!paymentToken) {
+    throw new Error("No USDC configured for this network");
+  }
+  if (requirement.asset.toLowerCase() !== paymentToken.toLowerCase()) {
+    throw new Error(`Payment asks for token ${requirement.asset}, expected USDC at ${paymentToken}`);
+  }
+}
+
+// Body of a 402 response
+export function parsePaymentRequired(body: string): PaymentRequiredResponse {
+  return paymentRequiredResponseSchema.parse(JSON.parse(body));
+}
+
+// Settlement details of a paid response; null if the header is missing or unreadable
+export function parsePaymentResponse(header: string | null): PaymentResponse | null {
+  if (!header) return null;
+  try {
+    return paymentResponseSchema.parse(JSON.parse(atob(header)));
+  } catch {
+    return null;
+  }
+}
+
+// Signs an EIP-3009 transferWithAuthorization of exactly the required amount,
+// using the server's nonce, and encodes it for the X-PAYMENT header
+export async function createPaymentHeader(
+  requirement: PaymentRequirement,
+  from: string,
+  signTypedData: (data: TypedData) => Promise<string>,
+): Promise<string> {
+  const authorization: TransferAuthorization = {
+    from,
+    to: requirement.payTo,
+    value: requirement.maxAmountRequired,
+    validAfter: "0",
+    validBefore: String(Math.floor(Date.now() / 1000) + requirement.maxTimeoutSeconds),
+    nonce: requirement.nonce,
+  };
+
+  const signature = await signTypedData({
+    domain: {
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: requirement.chainId,
+      verifyingContract: requirement.asset,
+    },
+    types: {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    primaryType: "TransferWithAuthorization",
+    message: {
+      ...authorization,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+    },
+  });
+
+  const payment: PaymentPayload = {
+    x402Version: 1,
+    scheme: "exact",
+    network: requirement.network,
+    payload: { signature, authorization },
+  };
+  return btoa(JSON.stringify(payment));
+}
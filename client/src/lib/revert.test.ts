@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { RevertError, decodeRevert, describeRevert, isCallRejected, toRevertError, type RevertContext } from "./revert";
+
+// Revert data as returned by eth_call / eth_estimateGas for each error
+const PAYLOADS = {
+  DropUnauthorized: "0x56c4ef51",
+  DropNoActiveCondition: "0xf40f1cc0",
+  // expects 1 USDC, got 0.5 USDC
+  DropClaimInvalidTokenPrice: "0xf13474e9000000000000000000000000833589fcd6edb6e08f4c7c32d4f71b54bda0291300000000000000000000000000000000000000000000000000000000000f4240000000000000000000000000833589fcd6edb6e08f4c7c32d4f71b54bda02913000000000000000000000000000000000000000000000000000000000007a120",
+  // limit 2, would reach 3
+  DropClaimExceedLimit: "0x9e7762db00000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000003",
+  // max 1000, would reach 1001
+  DropClaimExceedMaxSupply: "0xfe381cc900000000000000000000000000000000000000000000000000000000000003e800000000000000000000000000000000000000000000000000000000000003e9",
+  // starts 2026-01-01T00:00:00Z
+  DropClaimNotStarted: "0x4562091e000000000000000000000000000000000000000000000000000000006955b9000000000000000000000000000000000000000000000000000000000069546780",
+  // has 0.5 USDC, needs 1 USDC
+  ERC20InsufficientBalance: "0xe450d38c0000000000000000000000001111111111111111111111111111111111111111000000000000000000000000000000000000000000000000000000000007a12000000000000000000000000000000000000000000000000000000000000f4240",
+  // approved 0, needs 1 USDC
+  ERC20InsufficientAllowance: "0xfb8f41b20000000000000000000000002222222222222222222222222222222222222222000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000f4240",
+  ERC20InvalidReceiver: "0xec442f050000000000000000000000000000000000000000000000000000000000000000",
+  SafeERC20FailedOperation: "0x5274afe7000000000000000000000000833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+  // Error("ERC20: transfer amount exceeds balance"), as reverted by USDC
+  RequireBalance: "0x08c379a00000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000002645524332303a207472616e7366657220616d6f756e7420657863656564732062616c616e63650000000000000000000000000000000000000000000000000000",
+  // Error("!Qty")
+  RequireQty: "0x08c379a0000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000042151747900000000000000000000000000000000000000000000000000000000",
+  // Error("Ownable: caller is not the owner")
+  RequireOther: "0x08c379a0000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000204f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572",
+  // Panic(0x11)
+  Panic: "0x4e487b710000000000000000000000000000000000000000000000000000000000000011",
+};
+
+const USDC_ON_BASE: RevertContext = { network: "Base", currencySymbol: "USDC", currencyDecimals: 6 };
+
+function describeData(data: string, context?: RevertContext) {
+  const revert = decodeRevert(data);
+  if (!revert) throw new Error(`Payload did not decode: ${data}`);
+  return describeRevert(revert, context);
+}
+
+describe("decodeRevert", () => {
+  it("decodes custom errors with named arguments", () => {
+    expect(decodeRevert(PAYLOADS.DropClaimExceedLimit)).toEqual({
+      name: "DropClaimExceedLimit",
+      selector: "0x9e7762db",
+      args: { expected: 2n, actual: 3n },
+    });
+    expect(decodeRevert(PAYLOADS.ERC20InsufficientBalance)?.args).toEqual({
+      sender: "0x1111111111111111111111111111111111111111",
+      balance: 500_000n,
+      needed: 1_000_000n,
+    });
+  });
+
+  it("decodes errors without arguments", () => {
+    expect(decodeRevert(PAYLOADS.DropUnauthorized)).toEqual({ name: "DropUnauthorized", selector: "0x56c4ef51", args: {} });
+  });
+
+  it("decodes the built-in Error and Panic", () => {
+    expect(decodeRevert(PAYLOADS.RequireQty)).toMatchObject({ name: "Error", args: { arg0: "!Qty" } });
+    expect(decodeRevert(PAYLOADS.Panic)).toMatchObject({ name: "Panic", args: { arg0: 0x11n } });
+  });
+
+  it("returns undefined for unknown selectors and non-revert data", () => {
+    expect(decodeRevert("0xdeadbeef")).toBeUndefined();
+    expect(decodeRevert("0x1234")).toBeUndefined();
+    expect(decodeRevert("not hex")).toBeUndefined();
+  });
+});
+
+describe("describeRevert", () => {
+  it("describes the Drop claim errors", () => {
+    expect(describeData(PAYLOADS.DropUnauthorized).message).toBe("Not authorised to claim in this phase");
+    expect(describeData(PAYLOADS.DropNoActiveCondition).message).toBe("No active claim condition - minting may be paused");
+    expect(describeData(PAYLOADS.DropClaimExceedLimit)).toEqual({
+      message: "Claim limit exceeded: wallet limit is 2, this claim would bring it to 3",
+      hint: "Mint a smaller quantity or use another wallet",
+    });
+    expect(describeData(PAYLOADS.DropClaimExceedMaxSupply).message).toBe("Not enough supply: phase max is 1000, this claim would reach 1001");
+    expect(describeData(PAYLOADS.DropClaimNotStarted).message).toBe(
+      `Claim phase has not started (starts ${new Date(1767225600 * 1000).toLocaleString()})`,
+    );
+  });
+
+  it("formats claim prices in the claim currency", () => {
+    expect(describeData(PAYLOADS.DropClaimInvalidTokenPrice, USDC_ON_BASE).message).toBe(
+      "Price mismatch: contract expects 1 USDC (0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913), got 0.5 USDC (0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913)",
+    );
+  });
+
+  it("formats ERC20 amounts with the currency decimals", () => {
+    expect(describeData(PAYLOADS.ERC20InsufficientBalance, USDC_ON_BASE)).toEqual({
+      message: "Insufficient USDC balance: have 0.5 USDC, need 1 USDC",
+      hint: "Top up USDC on Base, then run 'balance' to check",
+    });
+    expect(describeData(PAYLOADS.ERC20InsufficientAllowance, USDC_ON_BASE).message).toBe("Allowance too low: approved 0 USDC, need 1 USDC");
+  });
+
+  it("falls back to base units and a generic hint without a currency", () => {
+    expect(describeData(PAYLOADS.ERC20InsufficientBalance)).toEqual({
+      message: "Insufficient token balance: have 500000, need 1000000",
+      hint: "Top up the payment token, then run 'balance' to check",
+    });
+  });
+
+  it("describes the other ERC20 errors", () => {
+    expect(describeData(PAYLOADS.ERC20InvalidReceiver).message).toBe(
+      "Token transfer rejected: InvalidReceiver 0x0000000000000000000000000000000000000000",
+    );
+    expect(describeData(PAYLOADS.SafeERC20FailedOperation).message).toBe(
+      "Token transfer failed for 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    );
+  });
+
+  it("maps require strings through REQUIRE_REASONS", () => {
+    expect(describeData(PAYLOADS.RequireQty)).toEqual({
+      message: "Requested quantity exceeds the per-wallet claim limit",
+      hint: "Mint a smaller quantity",
+    });
+  });
+
+  it("describes ERC20 require strings like the matching custom error", () => {
+    expect(describeData(PAYLOADS.RequireBalance, USDC_ON_BASE)).toEqual({
+      message: "Insufficient USDC balance for this payment",
+      hint: "Top up USDC on Base, then run 'balance' to check",
+    });
+  });
+
+  it("passes unknown require strings through", () => {
+    expect(describeData(PAYLOADS.RequireOther).message).toBe("Transaction reverted: Ownable: caller is not the owner");
+  });
+
+  it("names panic codes", () => {
+    expect(describeData(PAYLOADS.Panic).message).toBe("Contract panicked: arithmetic overflow or underflow");
+  });
+});
+
+describe("toRevertError", () => {
+  it("finds revert data nested in wallet and RPC errors", () => {
+    const error = Object.assign(new Error("execution reverted"), {
+      cause: { error: { code: 3, data: PAYLOADS.ERC20InsufficientBalance } },
+    });
+    const revertError = toRevertError(error, USDC_ON_BASE);
+    expect(revertError).toBeInstanceOf(RevertError);
+    expect(revertError?.revert.name).toBe("ERC20InsufficientBalance");
+    expect(revertError?.message).toBe("Insufficient USDC balance: have 0.5 USDC, need 1 USDC");
+    expect(revertError?.hint).toBe("Top up USDC on Base, then run 'balance' to check");
+  });
+
+  it("finds revert data that only appears in the message text", () => {
+    const error = new Error(`Encoded error signature found: ${PAYLOADS.DropClaimExceedLimit} (eth_estimateGas)`);
+    expect(toRevertError(error)?.message).toBe("Claim limit exceeded: wallet limit is 2, this claim would bring it to 3");
+  });
+
+  it("falls back to an error name in the message", () => {
+    const revertError = toRevertError(new Error("execution reverted: DropNoActiveCondition"));
+    expect(revertError?.revert).toEqual({ name: "DropNoActiveCondition", selector: "0xf40f1cc0", args: {} });
+  });
+
+  it("describes name-only matches without arguments", () => {
+    expect(toRevertError(new Error("reverted with DropClaimExceedLimit"))?.message).toBe("Claim limit exceeded for this wallet");
+  });
+
+  it("returns RevertErrors unchanged", () => {
+    const revertError = toRevertError(new Error(PAYLOADS.Panic))!;
+    expect(toRevertError(revertError)).toBe(revertError);
+  });
+
+  it("returns undefined for errors that aren't reverts", () => {
+    expect(toRevertError(new Error("User rejected the request"))).toBeUndefined();
+    expect(toRevertError(undefined)).toBeUndefined();
+  });
+});
+
+describe("isCallRejected", () => {
+  it("accepts reverts and calls that returned no data", () => {
+    expect(isCallRejected({ code: -32000, message: "execution reverted" })).toBe(true);
+    expect(isCallRejected({ code: 3, message: "execution reverted: !Qty", data: PAYLOADS.RequireQty })).toBe(true);
+    expect(isCallRejected(Object.assign(new Error('Cannot decode zero data ("0x") with ABI parameters.'), {
+      name: "AbiDecodingZeroDataError",
+    }))).toBe(true);
+  });
+
+  it("rejects RPC and network failures", () => {
+    expect(isCallRejected(new Error("RPC request failed with status 429 - Too Many Requests: rate limited"))).toBe(false);
+    expect(isCallRejected(new Error("The operation was aborted due to timeout"))).toBe(false);
+    expect(isCallRejected({ code: -32000, message: "header not found" })).toBe(false);
+    expect(isCallRejected(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+import { ethers } from "ethers";
+import { toTokens } from "thirdweb";
+
+// Custom errors the Drop (ERC1155 claim) contract and ERC20 payment tokens can revert with.
+// Error(string) and Panic(uint256) are built into ethers and need no declaration.
+const REVERT_ABI = [
+  // Drop claim conditions
+  "error DropUnauthorized()",
+  "error DropNoActiveCondition()",
+  "error DropClaimInvalidTokenPrice(address expectedCurrency, uint256 expectedPricePerToken, address actualCurrency, uint256 actualExpectedPricePerToken)",
+  "error DropClaimExceedLimit(uint256 expected, uint256 actual)",
+  "error DropClaimExceedMaxSupply(uint256 expected, uint256 actual)",
+  "error DropClaimNotStarted(uint256 expected, uint256 actual)",
+  // OpenZeppelin ERC-6093 ERC20 errors
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+  "error SafeERC20FailedOperation(address token)",
+];
+
+const revertInterface = new ethers.Interface(REVERT_ABI);
+
+export interface DecodedRevert {
+  name: string;
+  selector: string;
+  args: Record<string, unknown>;
+}
+
+// Human-readable message plus what the user can do about it
+export interface RevertDescription {
+  message: string;
+  hint?: string;
+}
+
+// What the reverted call was paying with and where, so messages can show token
+// amounts and name the network. Without a currency, amounts are raw base units.
+export interface RevertContext {
+  // Deployment label, e.g. "Base Sepolia"
+  network?: string;
+  currencySymbol?: string;
+  currencyDecimals?: number;
+}
+
+// Revert data surfaced as an Error, keeping the decoded form for callers that want it
+export class RevertError extends Error {
+  readonly revert: DecodedRevert;
+  readonly hint?: string;
+
+  constructor(revert: DecodedRevert, description: RevertDescription) {
+    super(description.message);
+    this.name = "RevertError";
+    this.revert = revert;
+    this.hint = description.hint;
+  }
+}
+
+// Require strings used by older Drop implementations
+const REQUIRE_REASONS: Record<string, RevertDescription> = {
+  "!PriceOrCurrency": {
+    message: "Claim price or currency does not match the active claim condition",
+    hint: "The price was changed on-chain; reload the page and try again",
+  },
+  "!Qty": {
+    message: "Requested quantity exceeds the per-wallet claim limit",
+    hint: "Mint a smaller quantity",
+  },
+  "!MaxSupply": {
+    message: "Not enough supply left in this claim phase",
+    hint: "Mint a smaller quantity",
+  },
+  "cant claim yet": {
+    message: "The claim phase has not started yet",
+  },
+};
+
+// Require strings of pre-ERC-6093 tokens (e.g. USDC), described like the custom
+// error that replaced them
+const REQUIRE_ERRORS: Record<string, string> = {
+  "ERC20: transfer amount exceeds balance": "ERC20InsufficientBalance",
+  "ERC20: transfer amount exceeds allowance": "ERC20InsufficientAllowance",
+};
+
+const PANIC_CODES: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+function formatTimestamp(seconds: unknown): string {
+  return new Date(Number(seconds) * 1000).toLocaleString();
+}
+
+function formatAmount(value: unknown, context: RevertContext): string {
+  if (context.currencyDecimals === undefined) return String(value);
+  const amount = toTokens(BigInt(value as bigint), context.currencyDecimals);
+  return context.currencySymbol ? `${amount} ${context.currencySymbol}` : amount;
+}
+
+export function topUpHint(context: RevertContext): string {
+  const network = context.network ? ` on ${context.network}` : "";
+  return `Top up ${context.currencySymbol ?? "the payment token"}${network}, then run 'balance' to check`;
+}
+
+export function decodeRevert(data: string): DecodedRevert | undefined {
+  if (!ethers.isHexString(data) || data.length < 10) return undefined;
+
+  try {
+    const parsed = revertInterface.parseError(data);
+    if (!parsed) return undefined;
+
+    const args: Record<string, unknown> = {};
+    // Built-in Error(string) and Panic(uint256) come back with unnamed inputs
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name || `arg${index}`] = parsed.args[index];
+    });
+    return { name: parsed.name, selector: parsed.selector, args };
+  } catch {
+    return undefined;
+  }
+}
+
+export function describeRevert(revert: DecodedRevert, context: RevertContext = {}): RevertDescription {
+  const { args } = revert;
+  const token = context.currencySymbol ?? "token";
+  // False when the error was only recognised by name, without its arguments
+  const hasArgs = Object.keys(args).length > 0;
+
+  switch (revert.name) {
+    case "DropUnauthorized":
+      return { message: "Not authorised to claim in this phase" };
+    case "DropNoActiveCondition":
+      return {
+        message: "No active claim condition - minting may be paused",
+        hint: "Check the project's announcements for the next mint window",
+      };
+    case "DropClaimInvalidTokenPrice": {
+      // The context describes the expected currency; a different one is shown raw
+      const sameCurrency = String(args.expectedCurrency).toLowerCase() === String(args.actualCurrency).toLowerCase();
+      return {
+        message: hasArgs
+          ? `Price mismatch: contract expects ${formatAmount(args.expectedPricePerToken, context)} (${args.expectedCurrency}), got ${formatAmount(args.actualExpectedPricePerToken, sameCurrency ? context : {})} (${args.actualCurrency})`
+          : "Claim price or currency does not match the active claim condition",
+        hint: "The price was changed on-chain; reload the page and try again",
+      };
+    }
+    case "DropClaimExceedLimit":
+      return {
+        message: hasArgs
+          ? `Claim limit exceeded: wallet limit is ${args.expected}, this claim would bring it to ${args.actual}`
+          : "Claim limit exceeded for this wallet",
+        hint: "Mint a smaller quantity or use another wallet",
+      };
+    case "DropClaimExceedMaxSupply":
+      return {
+        message: hasArgs
+          ? `Not enough supply: phase max is ${args.expected}, this claim would reach ${args.actual}`
+          : "Not enough supply left in this claim phase",
+        hint: "Mint a smaller quantity",
+      };
+    case "DropClaimNotStarted":
+      return {
+        message: hasArgs
+          ? `Claim phase has not started (starts ${formatTimestamp(args.expected)})`
+          : "The claim phase has not started yet",
+        hint: "Try again once the phase is live",
+      };
+    case "ERC20InsufficientBalance":
+      return {
+        message: hasArgs
+          ? `Insufficient ${token} balance: have ${formatAmount(args.balance, context)}, need ${formatAmount(args.needed, context)}`
+          : `Insufficient ${token} balance for this payment`,
+        hint: topUpHint(context),
+      };
+    case "ERC20InsufficientAllowance":
+      return {
+        message: hasArgs
+          ? `Allowance too low: approved ${formatAmount(args.allowance, context)}, need ${formatAmount(args.needed, context)}`
+          : `${context.currencySymbol ?? "Token"} allowance is lower than the payment`,
+        hint: "Run the command again to send a new approval",
+      };
+    case "ERC20InvalidSender":
+    case "ERC20InvalidReceiver":
+    case "ERC20InvalidApprover":
+    case "ERC20InvalidSpender":
+      return { message: `Token transfer rejected: ${revert.name.replace("ERC20", "")}${hasArgs ? ` ${Object.values(args)[0]}` : ""}` };
+    case "SafeERC20FailedOperation":
+      return { message: hasArgs ? `Token transfer failed for ${args.token}` : "Token transfer failed" };
+    case "Error": {
+      const reason = String(args.arg0);
+      if (REQUIRE_ERRORS[reason]) {
+        return describeRevert({ ...revert, name: REQUIRE_ERRORS[reason], args: {} }, context);
+      }
+      return REQUIRE_REASONS[reason] ?? { message: `Transaction reverted: ${reason}` };
+    }
+    case "Panic": {
+      const code = Number(args.arg0);
+      return { message: `Contract panicked: ${PANIC_CODES[code] ?? `code 0x${code.toString(16)}`}` };
+    }
+    default:
+      return { message: `Transaction reverted: ${revert.name}` };
+  }
+}
+
+// Finds ABI-encoded revert data on the error shapes thrown by wallets, RPCs,
+// ethers and thirdweb (nested `data`, `error`, `cause` and `info` properties)
+export function extractRevertData(error: unknown, depth: number = 0): string | undefined {
+  if (!error || depth > 5) return undefined;
+
+  if (typeof error === "string") {
+    return ethers.isHexString(error) && error.length >= 10 ? error : undefined;
+  }
+  if (typeof error !== "object") return undefined;
+
+  const candidate = error as Record<string, unknown>;
+  for (const key of ["data", "error", "cause", "info"]) {
+    const found = extractRevertData(candidate[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Whether a contract read failed because the contract rejected the call - it
+// reverted, or returned nothing because it has no such function - rather than
+// the RPC failing (timeouts, rate limits and the like)
+export function isCallRejected(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { name, message, code } = error as { name?: unknown; message?: unknown; code?: unknown };
+  // JSON-RPC code 3 is an eth_call revert that carries data
+  if (name === "AbiDecodingZeroDataError" || code === 3) return true;
+  return typeof message === "string" && /execution reverted|Cannot decode zero data/i.test(message);
+}
+
+// Last resort when there's no revert data: look for an exact custom error name in the message
+function matchErrorName(error: unknown): DecodedRevert | undefined {
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  for (const fragment of revertInterface.fragments) {
+    if (fragment.type !== "error") continue;
+    const errorFragment = fragment as ethers.ErrorFragment;
+    if (new RegExp(`\\b${errorFragment.name}\\b`).test(message)) {
+      return { name: errorFragment.name, selector: errorFragment.selector, args: {} };
+    }
+  }
+  return undefined;
+}
+
+// Converts any contract error into a RevertError, or returns undefined if it isn't one we know
+export function toRevertError(error: unknown, context: RevertContext = {}): RevertError | undefined {
+  if (error instanceof RevertError) return error;
+
+  // Some providers only put the revert data in the message text
+  const message = error instanceof Error ? error.message : "";
+  const candidates = [extractRevertData(error), ...(message.match(/0x[0-9a-fA-F]{8,}/g) ?? [])];
+
+  let revert: DecodedRevert | undefined;
+  for (const data of candidates) {
+    revert = data ? decodeRevert(data) : undefined;
+    if (revert) break;
+  }
+  revert ??= matchErrorName(error);
+  if (!revert) return undefined;
+  return new RevertError(revert, describeRevert(revert, context));
+}
+
+// Builds the RevertError a contract would produce for one of the known errors, e.g.
+// createRevertError("DropClaimExceedLimit", [limit, total])
+export function createRevertError(name: string, values: unknown[] = [], context: RevertContext = {}): RevertError {
+  const fragment = revertInterface.getError(name);
+  if (!fragment) throw new Error(`Unknown revert error: ${name}`);
+
+  const args: Record<string, unknown> = {};
+  fragment.inputs.forEach((input, index) => {
+    args[input.name || `arg${index}`] = values[index];
+  });
+  const revert = { name: fragment.name, selector: fragment.selector, args };
+  return new RevertError(revert, describeRevert(revert, context));
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionTracker, type Receipt, type ReceiptSource } from "./transactions";
+
+// The module's tracker singleton loads from localStorage on import
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+  });
+});
+
+const HASH = `0x${"ab".repeat(32)}`;
+const CHAIN_ID = 8453;
+
+function createSource(overrides: Partial<ReceiptSource> = {}): ReceiptSource {
+  return {
+    waitForReceipt: vi.fn(async (): Promise<Receipt> => ({ status: "success", blockNumber: 100n })),
+    getBlockNumber: vi.fn(async () => 100n),
+    getRevertReason: vi.fn(async () => "Transaction reverted"),
+    ...overrides,
+  };
+}
+
+describe("TransactionTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a transaction pending when waiting for its receipt fails", async () => {
+    const waitForReceipt = vi.fn()
+      .mockRejectedValueOnce(new Error("Transaction not found after 100 blocks"))
+      .mockRejectedValueOnce(new Error("fetch failed"))
+      .mockResolvedValue({ status: "success", blockNumber: 100n });
+    const tracker = new TransactionTracker(createSource({ waitForReceipt }), null);
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tracker.find(HASH)?.status).toBe("pending");
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(tracker.find(HASH)?.status).toBe("pending");
+
+    await vi.advanceTimersByTimeAsync(4000);
+    const tx = await tracker.wait(HASH);
+    expect(tx).toMatchObject({ status: "confirmed", blockNumber: 100, confirmations: 1 });
+    expect(waitForReceipt).toHaveBeenCalledTimes(3);
+  });
+
+  it("marks a transaction failed when no receipt turns up", async () => {
+    const waitForReceipt = vi.fn().mockRejectedValue(new Error("Transaction not found after 100 blocks"));
+    const tracker = new TransactionTracker(createSource({ waitForReceipt }), null);
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    const settled = tracker.wait(HASH);
+    await vi.advanceTimersByTimeAsync(15 * 60_000);
+
+    expect(await settled).toMatchObject({
+      status: "failed",
+      error: "Dropped or not found: no receipt 15 minutes after sending",
+    });
+  });
+
+  it("stops waiting when the signal is aborted but keeps following the transaction", async () => {
+    let resolveReceipt: (receipt: Receipt) => void = () => {};
+    const waitForReceipt = vi.fn(() => new Promise<Receipt>((resolve) => {
+      resolveReceipt = resolve;
+    }));
+    const tracker = new TransactionTracker(createSource({ waitForReceipt }), null);
+    const controller = new AbortController();
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    const waiting = tracker.wait(HASH, controller.signal);
+    controller.abort(new Error("Cancelled"));
+    await expect(waiting).rejects.toThrow("Cancelled");
+
+    resolveReceipt({ status: "success", blockNumber: 100n });
+    expect(await tracker.wait(HASH)).toMatchObject({ status: "confirmed" });
+  });
+
+  it("marks reverted transactions failed with the revert reason", async () => {
+    const source = createSource({
+      waitForReceipt: vi.fn(async (): Promise<Receipt> => ({ status: "reverted", blockNumber: 100n })),
+      getRevertReason: vi.fn(async () => "Claim limit exceeded for this wallet"),
+    });
+    const tracker = new TransactionTracker(source, null);
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    expect(await tracker.wait(HASH)).toMatchObject({ status: "failed", error: "Claim limit exceeded for this wallet" });
+  });
+
+  it("counts confirmations as blocks arrive", async () => {
+    const getBlockNumber = vi.fn().mockResolvedValueOnce(101n).mockResolvedValue(102n);
+    const tracker = new TransactionTracker(createSource({ getBlockNumber }), null);
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    await tracker.wait(HASH);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(tracker.find(HASH)?.confirmations).toBe(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(tracker.find(HASH)?.confirmations).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(getBlockNumber).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops following confirmations after repeated RPC failures", async () => {
+    const getBlockNumber = vi.fn().mockRejectedValue(new Error("fetch failed"));
+    const tracker = new TransactionTracker(createSource({ getBlockNumber }), null);
+
+    tracker.track(HASH, "claim", "Claim 1 NFT", CHAIN_ID);
+    await tracker.wait(HASH);
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(getBlockNumber).toHaveBeenCalledTimes(5);
+    expect(console.error).toHaveBeenCalledTimes(1);
+    expect(tracker.find(HASH)).toMatchObject({ status: "confirmed", confirmations: 1 });
+  });
+});
@@ -0,0 +1,262 @@
+import { z } from "zod";
+import {
+  waitForReceipt,
+  getRpcClient,
+  eth_blockNumber,
+  eth_getTransactionByHash,
+  eth_call,
+} from "thirdweb";
+import { numberToHex } from "thirdweb/utils";
+import { transactionSchema, type Transaction } from "@shared/schema";
+import { client } from "@/lib/thirdweb";
+import { getChain, getDeploymentByChainId } from "@/lib/deployments";
+import { toRevertError } from "@/lib/revert";
+
+const STORAGE_KEY = "cmd402:transactions";
+const MAX_TRANSACTIONS = 50;
+// Confirmation count after which a confirmed transaction stops being followed
+const CONFIRMATIONS_TARGET = 3;
+const POLL_INTERVAL_MS = 2000;
+// Consecutive block number failures after which confirmations stop being followed
+const MAX_POLL_FAILURES = 5;
+const MAX_RETRY_DELAY_MS = 30_000;
+// A transaction still without a receipt this long after it was sent was dropped,
+// replaced or never broadcast
+const DROPPED_AFTER_MS = 15 * 60_000;
+
+type Listener = (tx: Transaction) => void;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Doubles with each consecutive failure, up to MAX_RETRY_DELAY_MS
+function retryDelay(failures: number): number {
+  return Math.min(POLL_INTERVAL_MS * 2 ** failures, MAX_RETRY_DELAY_MS);
+}
+
+// Settles like `promise`, or rejects with the signal's reason once it's aborted
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+export interface Receipt {
+  status: "success" | "reverted";
+  blockNumber: bigint;
+}
+
+// Where the tracker learns what happened to a transaction
+export interface ReceiptSource {
+  waitForReceipt(hash: string, chainId: number): Promise<Receipt>;
+  getBlockNumber(chainId: number): Promise<bigint>;
+  // Message explaining why a mined transaction reverted
+  getRevertReason(hash: string, chainId: number): Promise<string>;
+}
+
+export const rpcReceiptSource: ReceiptSource = {
+  async waitForReceipt(hash, chainId) {
+    return waitForReceipt({
+      client,
+      chain: getChain(chainId),
+      transactionHash: hash as `0x${string}`,
+    });
+  },
+
+  async getBlockNumber(chainId) {
+    return eth_blockNumber(getRpcClient({ client, chain: getChain(chainId) }));
+  },
+
+  // Replays the transaction at its block to recover the revert message
+  async getRevertReason(hash, chainId) {
+    const rpcRequest = getRpcClient({ client, chain: getChain(chainId) });
+    try {
+      const tx = await eth_getTransactionByHash(rpcRequest, { hash: hash as `0x${string}` });
+      await eth_call(rpcRequest, {
+        from: tx.from,
+        to: tx.to ?? undefined,
+        data: tx.input,
+        value: numberToHex(tx.value),
+        blockNumber: tx.blockNumber ?? undefined,
+      });
+      return "Transaction reverted";
+    } catch (error) {
+      const revertError = toRevertError(error, { network: getDeploymentByChainId(chainId)?.label });
+      if (revertError) return revertError.message;
+      return error instanceof Error ? error.message : "Transaction reverted";
+    }
+  },
+};
+
+// Records every transaction the app sends and follows it until it settles.
+// Recent transactions are persisted so pending ones resume tracking after a reload;
+// pass a null storage key to keep them in memory only.
+export class TransactionTracker {
+  private transactions: Map<string, Transaction>;
+  private settled: Map<string, Promise<Transaction>>;
+  private listeners: Set<Listener>;
+  private source: ReceiptSource;
+  private storageKey: string | null;
+
+  constructor(source: ReceiptSource = rpcReceiptSource, storageKey: string | null = STORAGE_KEY) {
+    this.transactions = new Map();
+    this.settled = new Map();
+    this.listeners = new Set();
+    this.source = source;
+    this.storageKey = storageKey;
+    this.load();
+  }
+
+  track(hash: string, kind: Transaction["kind"], description: string, chainId: number): Transaction {
+    const tx: Transaction = {
+      hash,
+      kind,
+      description,
+      status: "pending",
+      chainId,
+      submittedAt: Date.now(),
+    };
+    this.transactions.set(hash, tx);
+    this.settled.set(hash, this.watch(hash, chainId));
+    this.persist();
+    this.emit(tx);
+    return tx;
+  }
+
+  // Resolves once the transaction is confirmed or has failed. Aborting `signal`
+  // rejects with its reason; the transaction itself is still followed.
+  wait(hash: string, signal?: AbortSignal): Promise<Transaction> {
+    const tx = this.transactions.get(hash);
+    const settled = this.settled.get(hash)
+      ?? (tx ? Promise.resolve(tx) : Promise.reject(new Error(`Unknown transaction: ${hash}`)));
+    return signal ? abortable(settled, signal) : settled;
+  }
+
+  // Newest first
+  list(): Transaction[] {
+    return Array.from(this.transactions.values()).sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  // Accepts a full hash or any unambiguous prefix of one
+  find(hashPrefix: string): Transaction | undefined {
+    const prefix = hashPrefix.toLowerCase();
+    const matches = this.list().filter((tx) => tx.hash.toLowerCase().startsWith(prefix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(hash: string, patch: Partial<Transaction>): Transaction {
+    const tx = { ...this.transactions.get(hash)!, ...patch };
+    this.transactions.set(hash, tx);
+    this.persist();
+    this.emit(tx);
+    return tx;
+  }
+
+  private emit(tx: Transaction) {
+    this.listeners.forEach((listener) => listener(tx));
+  }
+
+  // A wait that times out or an RPC error says nothing about the transaction, which
+  // may still be mined, so it stays pending and the receipt is asked for again,
+  // until DROPPED_AFTER_MS after it was sent
+  private async watch(hash: string, chainId: number): Promise<Transaction> {
+    const { submittedAt } = this.transactions.get(hash)!;
+    let receipt: Receipt | undefined;
+    for (let failures = 0; !receipt; failures++) {
+      try {
+        receipt = await this.source.waitForReceipt(hash, chainId);
+      } catch (error) {
+        if (Date.now() - submittedAt >= DROPPED_AFTER_MS) {
+          return this.update(hash, {
+            status: "failed",
+            error: `Dropped or not found: no receipt ${DROPPED_AFTER_MS / 60_000} minutes after sending`,
+          });
+        }
+        console.warn(`No receipt yet for ${hash}, retrying:`, error);
+        await sleep(retryDelay(failures));
+      }
+    }
+    const blockNumber = Number(receipt.blockNumber);
+
+    if (receipt.status === "reverted") {
+      return this.update(hash, {
+        status: "failed",
+        blockNumber,
+        error: await this.source.getRevertReason(hash, chainId),
+      });
+    }
+
+    const tx = this.update(hash, { status: "confirmed", blockNumber, confirmations: 1 });
+    this.followConfirmations(hash, chainId, receipt.blockNumber);
+    return tx;
+  }
+
+  // Backs off while the RPC fails and gives up after MAX_POLL_FAILURES in a row;
+  // the transaction stays confirmed with the count it had reached
+  private async followConfirmations(hash: string, chainId: number, blockNumber: bigint) {
+    let confirmations = 1;
+    let failures = 0;
+
+    while (confirmations < CONFIRMATIONS_TARGET) {
+      await sleep(failures === 0 ? POLL_INTERVAL_MS : retryDelay(failures));
+      try {
+        const latest = await this.source.getBlockNumber(chainId);
+        failures = 0;
+        const next = Number(latest - blockNumber) + 1;
+        if (next > confirmations) {
+          confirmations = next;
+          this.update(hash, { confirmations });
+        }
+      } catch (error) {
+        failures++;
+        if (failures >= MAX_POLL_FAILURES) {
+          console.error(`Stopped following confirmations of ${hash}:`, error);
+          return;
+        }
+      }
+    }
+  }
+
+  private load() {
+    if (!this.storageKey) return;
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return;
+
+      const parsed = z.array(transactionSchema).safeParse(JSON.parse(raw));
+      if (!parsed.success) return;
+
+      for (const tx of parsed.data) {
+        this.transactions.set(tx.hash, tx);
+        // Each transaction is followed on the chain it was sent to
+        if (tx.status === "pending") {
+          this.settled.set(tx.hash, this.watch(tx.hash, tx.chainId));
+        }
+      }
+    } catch (error) {
+      console.error("Error loading transactions:", error);
+    }
+  }
+
+  private persist() {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.list().slice(0, MAX_TRANSACTIONS)));
+    } catch (error) {
+      console.error("Error saving transactions:", error);
+    }
+  }
+}
+
+export const transactionTracker = new TransactionTracker();
@@ -0,0 +1,28 @@
+import { vaultResponseSchema, type VaultResponse } from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+
+// The holder vault's contents; access needs a SIWE session of a holding wallet
+export async function fetchVault(): Promise<VaultResponse> {
+  try {
+    return vaultResponseSchema.parse(await (await apiRequest("GET", "/api/vault")).json());
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      throw new Error("Run 'login' to sign in with your wallet first");
+    }
+    if (error instanceof ApiError && error.status === 403) {
+      throw new Error(forbiddenMessage(error.body));
+    }
+    throw error;
+  }
+}
+
+// The server explains a 403 in JSON; a proxy in front of it may not
+function forbiddenMessage(body: string): string {
+  try {
+    const { message } = JSON.parse(body);
+    if (typeof message === "string") return message;
+  } catch {
+    // Not JSON; the body is the status text
+  }
+  return body || "Forbidden";
+}
@@ -0,0 +1,84 @@
+import { type Chain } from "thirdweb/chains";
+import { createWallet, inAppWallet, injectedProvider, walletConnect, type Wallet } from "thirdweb/wallets";
+import { client } from "@/lib/thirdweb";
+
+// Wallet names users type in `connect <wallet>`
+export const WALLET_OPTIONS = ["metamask", "coinbase", "walletconnect", "inapp"] as const;
+export type WalletOption = (typeof WALLET_OPTIONS)[number];
+
+// Sign-in methods offered for the in-app wallet
+export const INAPP_AUTH_OPTIONS = ["google", "apple", "discord", "guest"] as const;
+export type InAppAuthOption = (typeof INAPP_AUTH_OPTIONS)[number];
+
+// One instance per kind, shared with auto-connect so the last used wallet reconnects on reload
+export const supportedWallets: Record<WalletOption, Wallet> = {
+  metamask: createWallet("io.metamask"),
+  coinbase: createWallet("com.coinbase.wallet"),
+  walletconnect: walletConnect(),
+  inapp: inAppWallet(),
+};
+
+export const WALLET_LABELS: Record<WalletOption, string> = {
+  metamask: "MetaMask",
+  coinbase: "Coinbase Wallet",
+  walletconnect: "WalletConnect",
+  inapp: "In-app wallet",
+};
+
+// Opens the wallet's own connection flow (extension prompt, QR modal or sign-in popup)
+export async function connectTo(option: WalletOption, chain: Chain, auth: InAppAuthOption = "google"): Promise<Wallet> {
+  const wallet = supportedWallets[option];
+  switch (option) {
+    case "inapp":
+      await (wallet as Wallet<"inApp">).connect({ client, chain, strategy: auth });
+      break;
+    case "walletconnect":
+      await (wallet as Wallet<"walletConnect">).connect({ client, chain });
+      break;
+    default:
+      await (wallet as Wallet<"io.metamask">).connect({ client, chain });
+  }
+  return wallet;
+}
+
+export function getWalletOption(wallet: Wallet): WalletOption | undefined {
+  return WALLET_OPTIONS.find((option) => supportedWallets[option].id === wallet.id);
+}
+
+// Browser extensions keep several accounts but only expose the selected one; asking
+// for account permissions again opens the extension's account picker
+export async function requestAccountSwitch(wallet: Wallet) {
+  const provider = injectedProvider(wallet.id);
+  if (!provider) {
+    throw new Error("This wallet can't switch accounts from the terminal; switch in the wallet app");
+  }
+  await provider.request({ method: "wallet_requestPermissions", params: [{ eth_accounts: {} }] });
+}
+
+const CONNECTED_SINCE_KEY = "cmd402:connected-since";
+
+function loadConnectedSince(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(CONNECTED_SINCE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+// When an account was first connected; survives auto-reconnects, reset by disconnect
+export function getConnectedSince(address: string): number | undefined {
+  return loadConnectedSince()[address.toLowerCase()];
+}
+
+export function markConnected(address: string) {
+  const since = loadConnectedSince();
+  if (since[address.toLowerCase()]) return;
+  since[address.toLowerCase()] = Date.now();
+  localStorage.setItem(CONNECTED_SINCE_KEY, JSON.stringify(since));
+}
+
+export function clearConnected(address: string) {
+  const since = loadConnectedSince();
+  delete since[address.toLowerCase()];
+  localStorage.setItem(CONNECTED_SINCE_KEY, JSON.stringify(since));
+}
@@ -0,0 +1,87 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import { z } from "zod";
+import { allowlistEntrySchema, type AllowlistEntry, type AllowlistProof } from "@shared/schema";
+
+// Sorted-pair keccak256 merkle tree, matching OpenZeppelin's MerkleProof.verify
+// which the Drop contract uses to check allowlist proofs
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+function leafValues(entry: AllowlistEntry) {
+  return {
+    quantityLimitPerWallet: entry.maxClaimable,
+    pricePerToken: entry.price ?? ethers.MaxUint256.toString(),
+    currency: entry.currencyAddress ?? ethers.ZeroAddress,
+  };
+}
+
+function hashLeaf(entry: AllowlistEntry): string {
+  const values = leafValues(entry);
+  return ethers.solidityPackedKeccak256(
+    ["address", "uint256", "uint256", "address"],
+    [entry.address, values.quantityLimitPerWallet, values.pricePerToken, values.currency],
+  );
+}
+
+export class Allowlist {
+  private entries: Map<string, AllowlistEntry>;
+  // layers[0] are the leaves, the last layer holds the root
+  private layers: string[][];
+
+  constructor(entries: AllowlistEntry[]) {
+    this.entries = new Map(entries.map((entry) => [entry.address.toLowerCase(), entry]));
+
+    let layer = entries.map(hashLeaf);
+    this.layers = [layer];
+    while (layer.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        // An odd node out is promoted to the next layer unchanged
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+      layer = next;
+    }
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0] ?? ethers.ZeroHash;
+  }
+
+  getProof(address: string): AllowlistProof | undefined {
+    const entry = this.entries.get(address.toLowerCase());
+    if (!entry) return undefined;
+
+    let index = this.layers[0].indexOf(hashLeaf(entry));
+    const proof: string[] = [];
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      address: ethers.getAddress(entry.address),
+      merkleRoot: this.root,
+      proof,
+      ...leafValues(entry),
+    };
+  }
+}
+
+// Reads a JSON array of allowlist entries; returns undefined when no snapshot is present
+export function loadAllowlist(filePath: string): Allowlist | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const entries = z.array(allowlistEntrySchema).parse(raw);
+  return new Allowlist(entries);
+}
@@ -0,0 +1,213 @@
+import { randomBytes } from "crypto";
+import { type Express, type NextFunction, type Request, type Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { ethers } from "ethers";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { authVerifySchema, type AuthSession, type SiweMessage, type WalletSession } from "@shared/schema";
+import { parseSiweMessage } from "@shared/siwe";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const COOKIE_NAME = "cmd402.sid";
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Tolerated clock difference between the wallet's device and the server
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+declare module "express-session" {
+  interface SessionData {
+    walletSessionId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireWallet
+      wallet?: WalletSession;
+    }
+  }
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(app: Express): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (app.get("env") !== "development") {
+    throw new Error("SESSION_SECRET must be set outside development");
+  }
+  log("SESSION_SECRET not set, using a random one; sessions end when the server restarts", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+// EOAs are checked by recovering the signer; smart contract wallets (ERC-1271) need
+// an RPC for the message's chain, taken from SIWE_RPC_URL or the indexer's RPC
+async function isValidSignature(message: SiweMessage, text: string, signature: string): Promise<boolean> {
+  try {
+    if (ethers.verifyMessage(text, signature).toLowerCase() === message.address.toLowerCase()) {
+      return true;
+    }
+  } catch {
+    // Not a 65-byte ECDSA signature; may still be a contract wallet's
+  }
+
+  const rpcUrl = process.env.SIWE_RPC_URL || process.env.INDEXER_RPC_URL;
+  if (!rpcUrl) return false;
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== message.chainId) return false;
+
+  const wallet = new ethers.Contract(
+    message.address,
+    ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"],
+    provider,
+  );
+  try {
+    return (await wallet.isValidSignature(ethers.hashMessage(text), signature)) === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+function toAuthSession(wallet: WalletSession): AuthSession {
+  return {
+    address: ethers.getAddress(wallet.address),
+    chainId: wallet.chainId,
+    expiresAt: wallet.expiresAt.toISOString(),
+  };
+}
+
+// Rejects requests without a signed-in wallet and exposes it as `req.wallet`
+export async function requireWallet(req: Request, res: Response, next: NextFunction) {
+  try {
+    const id = req.session.walletSessionId;
+    const wallet = id ? await storage.getWalletSession(id) : undefined;
+    if (!wallet) {
+      return res.status(401).json({ message: "Sign in with your wallet first" });
+    }
+    req.wallet = wallet;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Sign-In With Ethereum (EIP-4361): the client asks for a nonce, has the wallet
+// sign a message containing it, and trades message + signature for a session cookie
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use("/api", session({
+    name: COOKIE_NAME,
+    secret: sessionSecret(app),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") !== "development",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+
+  app.get("/api/auth/nonce", async (_req, res, next) => {
+    try {
+      const nonce = randomBytes(16).toString("hex");
+      await storage.createAuthNonce({ nonce, expiresAt: new Date(Date.now() + NONCE_TTL_MS) });
+      res.json({ nonce });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/verify", async (req, res, next) => {
+    const body = authVerifySchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: fromZodError(body.error).message });
+    }
+
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(body.data.message);
+    } catch (error) {
+      const reason = error instanceof ZodError ? fromZodError(error).message : (error as Error).message;
+      return res.status(400).json({ message: reason });
+    }
+
+    const now = Date.now();
+    if (message.domain !== req.get("host")) {
+      return res.status(401).json({ message: `Message is for ${message.domain}, not ${req.get("host")}` });
+    }
+    if (Date.parse(message.issuedAt) > now + CLOCK_SKEW_MS) {
+      return res.status(401).json({ message: "Message is issued in the future" });
+    }
+    if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW_MS) {
+      return res.status(401).json({ message: "Message is not valid yet" });
+    }
+    if (message.expirationTime && Date.parse(message.expirationTime) <= now) {
+      return res.status(401).json({ message: "Message has expired" });
+    }
+
+    try {
+      if (!(await isValidSignature(message, body.data.message, body.data.signature))) {
+        return res.status(401).json({ message: "Signature does not match the address" });
+      }
+      // Consumed only once the signature checks out, so a forged request can't burn a real nonce
+      if (!(await storage.consumeAuthNonce(message.nonce))) {
+        return res.status(401).json({ message: "Nonce is unknown, expired or already used" });
+      }
+
+      const expiresAt = new Date(Math.min(
+        now + SESSION_TTL_MS,
+        message.expirationTime ? Date.parse(message.expirationTime) : Infinity,
+      ));
+      const wallet = await storage.createWalletSession({
+        address: message.address,
+        chainId: message.chainId,
+        expiresAt,
+      });
+
+      // A fresh session ID on sign-in prevents session fixation
+      await new Promise<void>((resolve, reject) => req.session.regenerate((error) => (error ? reject(error) : resolve())));
+      req.session.walletSessionId = wallet.id;
+      req.session.cookie.expires = expiresAt;
+      res.json(toAuthSession(wallet));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/me", requireWallet, (req, res) => {
+    res.json(toAuthSession(req.wallet!));
+  });
+
+  app.post("/api/auth/logout", async (req, res, next) => {
+    try {
+      if (req.session.walletSessionId) {
+        await storage.deleteWalletSession(req.session.walletSessionId);
+      }
+      req.session.destroy((error) => {
+        if (error) return next(error);
+        res.clearCookie(COOKIE_NAME);
+        res.status(204).end();
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,10 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export function createDatabase(url: string) {
+  const pool = new pg.Pool({ connectionString: url });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
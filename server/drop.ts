@@ -0,0 +1,55 @@
+import { ethers } from "ethers";
+import { type ClaimPrice } from "@shared/schema";
+
+const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const DROP_ABI = [
+  "function getActiveClaimConditionId(uint256 tokenId) view returns (uint256)",
+  "function getClaimConditionById(uint256 tokenId, uint256 conditionId) view returns ((uint256 startTimestamp, uint256 maxClaimableSupply, uint256 supplyClaimed, uint256 quantityLimitPerWallet, bytes32 merkleRoot, uint256 pricePerToken, address currency, string metadata))",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+];
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+// Reads live contract state for the API, which otherwise only sees indexed events
+export class DropReader {
+  private provider: ethers.JsonRpcProvider;
+  private drop: ethers.Contract;
+
+  constructor(rpcUrl: string, contract: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.drop = new ethers.Contract(contract, DROP_ABI, this.provider);
+  }
+
+  // null when the token has no active claim condition (the contract reverts)
+  async getPrice(tokenId: string): Promise<ClaimPrice | null> {
+    let condition: { pricePerToken: bigint; currency: string };
+    try {
+      const conditionId = await this.drop.getActiveClaimConditionId(tokenId);
+      condition = await this.drop.getClaimConditionById(tokenId, conditionId);
+    } catch (error) {
+      if (ethers.isError(error, "CALL_EXCEPTION")) return null;
+      throw error;
+    }
+
+    const price = {
+      tokenId,
+      pricePerToken: condition.pricePerToken.toString(),
+      currency: condition.currency,
+    };
+    if (condition.currency.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase()) {
+      return { ...price, currencySymbol: "ETH", currencyDecimals: 18 };
+    }
+
+    const token = new ethers.Contract(condition.currency, ERC20_ABI, this.provider);
+    const [currencySymbol, currencyDecimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { ...price, currencySymbol, currencyDecimals: Number(currencyDecimals) };
+  }
+
+  getBalance(address: string, tokenId: string): Promise<bigint> {
+    return this.drop.balanceOf(address, tokenId);
+  }
+}
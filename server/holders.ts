@@ -0,0 +1,86 @@
+import { type NextFunction, type Request, type RequestHandler, type Response } from "express";
+import { type IndexedRange } from "./indexer";
+import { requireWallet } from "./auth";
+
+// How long a balance read is trusted; indexed transfers of the wallet end it sooner
+const BALANCE_TTL_MS = 30_000;
+
+export interface BalanceSource {
+  getBalance(address: string, tokenId: string): Promise<bigint>;
+}
+
+interface CachedBalance {
+  balance: bigint;
+  expiresAt: number;
+}
+
+// Recent token balances, so gated requests don't each cost an RPC call
+export class BalanceCache {
+  private source: BalanceSource;
+  private ttlMs: number;
+  private entries: Map<string, CachedBalance>;
+
+  constructor(source: BalanceSource, ttlMs: number = BALANCE_TTL_MS) {
+    this.source = source;
+    this.ttlMs = ttlMs;
+    this.entries = new Map();
+  }
+
+  async getBalance(address: string, tokenId: string): Promise<bigint> {
+    const key = `${address.toLowerCase()}:${tokenId}`;
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.balance;
+    }
+
+    const balance = await this.source.getBalance(address, tokenId);
+    this.entries.set(key, { balance, expiresAt: Date.now() + this.ttlMs });
+    return balance;
+  }
+
+  // Forgets one wallet's balances, or all of them
+  invalidate(address?: string) {
+    if (!address) {
+      this.entries.clear();
+      return;
+    }
+    const prefix = `${address.toLowerCase()}:`;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  // Indexer listener: drops the balances of both sides of each transfer, and
+  // everything after a rollback
+  handleIndexed(range?: IndexedRange) {
+    if (!range) {
+      this.invalidate();
+      return;
+    }
+    for (const transfer of range.transfers) {
+      this.invalidate(transfer.from);
+      this.invalidate(transfer.to);
+    }
+  }
+}
+
+// Returns a factory for middleware that only lets through signed-in wallets
+// holding at least `minBalance` of `tokenId`
+export function createHolderGate(balances: BalanceCache) {
+  return function requireHolder(tokenId: string, minBalance: bigint = 1n): RequestHandler[] {
+    return [
+      requireWallet,
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const balance = await balances.getBalance(req.wallet!.address, tokenId);
+          if (balance < minBalance) {
+            return res.status(403).json({ message: `Hold at least ${minBalance} of token #${tokenId} to access this` });
+          }
+          next();
+        } catch (error) {
+          next(error);
+        }
+      },
+    ];
+  };
+}
@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { Indexer, RpcLogSource, type IndexerConfig } from "./indexer";
+import { MemStorage } from "./storage";
+
+// Runs against a local dev node, e.g. `anvil` then
+// `ANVIL_RPC_URL=http://127.0.0.1:8545 npm test`. Reorgs are made with
+// evm_snapshot / evm_revert, which every dev node supports.
+const RPC_URL = process.env.ANVIL_RPC_URL;
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+const TRANSFER_SINGLE = ethers.id("TransferSingle(address,address,address,uint256,uint256)");
+
+// Stand-in for the drop: any call with abi.encode(from, to, id, value) emits
+// TransferSingle(msg.sender, from, to, id, value)
+const EMITTER_RUNTIME = [
+  "60406040600037", // calldatacopy(0, 0x40, 0x40): id and value as log data
+  "602035", // topic3: to
+  "600035", // topic2: from
+  "33", // topic1: operator
+  `7f${TRANSFER_SINGLE.slice(2)}`, // topic0
+  "60406000a4", // log4(0, 0x40, ...)
+  "00",
+].join("");
+const EMITTER_INIT = `0x60${(EMITTER_RUNTIME.length / 2).toString(16).padStart(2, "0")}80600b6000396000f3${EMITTER_RUNTIME}`;
+
+describe.skipIf(!RPC_URL)("Indexer against a dev node", () => {
+  let provider: ethers.JsonRpcProvider;
+  let signer: ethers.Signer;
+  let contract: string;
+  let baseline: string;
+
+  beforeAll(async () => {
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { cacheTimeout: -1 });
+    signer = await provider.getSigner(0);
+    const deployment = await signer.sendTransaction({ data: EMITTER_INIT });
+    contract = (await deployment.wait())!.contractAddress!;
+    baseline = await provider.send("evm_snapshot", []);
+  });
+
+  // Every test starts from the chain as it was right after deployment
+  beforeEach(async () => {
+    await provider.send("evm_revert", [baseline]);
+    baseline = await provider.send("evm_snapshot", []);
+  });
+
+  afterAll(() => {
+    provider?.destroy();
+  });
+
+  async function transfer(from: string, to: string, tokenId: number, value: number) {
+    const data = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["address", "address", "uint256", "uint256"],
+      [from, to, tokenId, value],
+    );
+    await (await signer.sendTransaction({ to: contract, data })).wait();
+  }
+
+  async function mine(blocks: number) {
+    for (let i = 0; i < blocks; i++) {
+      await provider.send("evm_mine", []);
+    }
+  }
+
+  async function createIndexer(store: MemStorage): Promise<Indexer> {
+    const config: IndexerConfig = {
+      contract,
+      startBlock: await provider.getBlockNumber(),
+      batchSize: 1000,
+      confirmations: 0,
+      pollIntervalMs: 1000,
+    };
+    return new Indexer(new RpcLogSource(RPC_URL!), store, config);
+  }
+
+  // Checkpoints must all be canonical blocks once the indexer has caught up
+  async function expectCanonicalCheckpoints(store: MemStorage) {
+    const checkpoints = await store.getCheckpointsBefore(Infinity, 1000);
+    expect(checkpoints.length).toBeGreaterThan(0);
+    for (const checkpoint of checkpoints) {
+      expect((await provider.getBlock(checkpoint.blockNumber))?.hash).toBe(checkpoint.blockHash);
+    }
+  }
+
+  it("indexes transfers up to the head", async () => {
+    const store = new MemStorage();
+    const indexer = await createIndexer(store);
+    await transfer(ethers.ZeroAddress, ALICE, 0, 3);
+    await transfer(ALICE, BOB, 0, 1);
+
+    await indexer.sync();
+
+    expect((await store.getWalletTokens(ALICE)).tokens).toEqual([{ tokenId: "0", balance: "2" }]);
+    expect((await store.getWalletTokens(BOB)).tokens).toEqual([{ tokenId: "0", balance: "1" }]);
+    expect((await store.getLatestCheckpoint())?.blockNumber).toBe(await provider.getBlockNumber());
+    await expectCanonicalCheckpoints(store);
+  });
+
+  it("rolls back transfers from blocks that were reorged out", async () => {
+    const store = new MemStorage();
+    const indexer = await createIndexer(store);
+    await transfer(ethers.ZeroAddress, ALICE, 0, 3);
+    const forkPoint = await provider.getBlockNumber();
+    const fork = await provider.send("evm_snapshot", []);
+
+    // The branch the indexer sees first
+    await transfer(ALICE, BOB, 0, 2);
+    await mine(2);
+    await indexer.sync();
+    expect((await store.getWalletTokens(BOB)).tokens).toEqual([{ tokenId: "0", balance: "2" }]);
+
+    // A longer branch from the fork point replaces it
+    await provider.send("evm_revert", [fork]);
+    await transfer(ALICE, BOB, 1, 5);
+    await mine(4);
+    await indexer.sync();
+
+    expect((await store.getWalletTokens(ALICE)).tokens).toEqual([{ tokenId: "0", balance: "3" }]);
+    expect((await store.getWalletTokens(BOB)).tokens).toEqual([{ tokenId: "1", balance: "5" }]);
+    expect((await store.getLatestCheckpoint())?.blockNumber).toBe(await provider.getBlockNumber());
+    expect((await store.getCheckpointsBefore(Infinity, 1000)).some((checkpoint) => checkpoint.blockNumber === forkPoint)).toBe(true);
+    await expectCanonicalCheckpoints(store);
+  });
+
+  it("rewinds to the start block when no checkpoint survives the reorg", async () => {
+    const store = new MemStorage();
+    const indexer = await createIndexer(store);
+    const fork = await provider.send("evm_snapshot", []);
+
+    await transfer(ethers.ZeroAddress, ALICE, 0, 1);
+    await indexer.sync();
+
+    await provider.send("evm_revert", [fork]);
+    await transfer(ethers.ZeroAddress, BOB, 0, 1);
+    await mine(2);
+    await indexer.sync();
+
+    expect((await store.getWalletTokens(ALICE)).tokens).toEqual([]);
+    expect((await store.getWalletTokens(BOB)).tokens).toEqual([{ tokenId: "0", balance: "1" }]);
+    await expectCanonicalCheckpoints(store);
+  });
+
+  it("re-indexes a branch that ends below the old head", async () => {
+    const store = new MemStorage();
+    const indexer = await createIndexer(store);
+    await transfer(ethers.ZeroAddress, ALICE, 0, 1);
+    const fork = await provider.send("evm_snapshot", []);
+
+    await transfer(ALICE, BOB, 0, 1);
+    await mine(5);
+    await indexer.sync();
+
+    // The replacement branch is shorter, so the old checkpoints above it are past the head
+    await provider.send("evm_revert", [fork]);
+    await mine(1);
+    await indexer.sync();
+
+    expect((await store.getWalletTokens(ALICE)).tokens).toEqual([{ tokenId: "0", balance: "1" }]);
+    expect((await store.getWalletTokens(BOB)).tokens).toEqual([]);
+    expect((await store.getLatestCheckpoint())?.blockNumber).toBe(await provider.getBlockNumber());
+    await expectCanonicalCheckpoints(store);
+  });
+});
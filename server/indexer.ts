@@ -0,0 +1,322 @@
+import { ethers } from "ethers";
+import { z } from "zod";
+import {
+  type CollectionQuery,
+  type Holder,
+  type HoldersQuery,
+  type IndexerCheckpoint,
+  type InsertIndexedClaim,
+  type InsertIndexedTransfer,
+  type Mint,
+  type MintsQuery,
+  type WalletTokens,
+} from "@shared/schema";
+import { log } from "./vite";
+
+const EVENTS = new ethers.Interface([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event TokensClaimed(uint256 indexed claimConditionIndex, address indexed claimer, address indexed receiver, uint256 tokenId, uint256 quantityClaimed)",
+]);
+
+const EVENT_TOPICS = ["TransferSingle", "TransferBatch", "TokensClaimed"].map(
+  (name) => EVENTS.getEvent(name)!.topicHash,
+);
+const TOKENS_CLAIMED_TOPIC = EVENT_TOPICS[2];
+
+// Checkpoints older than this many blocks below the latest one are pruned; a reorg
+// deeper than this rewinds to the start block
+const REORG_WINDOW = 256;
+
+const indexerEnvSchema = z.object({
+  INDEXER_RPC_URL: z.string().url(),
+  INDEXER_CONTRACT: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid address"),
+  // Deployment block of the contract; nothing before it needs scanning
+  INDEXER_START_BLOCK: z.coerce.number().int().min(0).default(0),
+  INDEXER_BATCH_SIZE: z.coerce.number().int().min(1).default(2000),
+  // Blocks to stay behind the head; reorgs within this distance are never indexed
+  INDEXER_CONFIRMATIONS: z.coerce.number().int().min(0).default(0),
+  INDEXER_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(4000),
+});
+
+export interface IndexerConfig {
+  contract: string;
+  startBlock: number;
+  batchSize: number;
+  confirmations: number;
+  pollIntervalMs: number;
+}
+
+// Reads INDEXER_* variables; undefined when the indexer isn't configured
+export function loadIndexerConfig(env: NodeJS.ProcessEnv = process.env): (IndexerConfig & { rpcUrl: string }) | undefined {
+  if (!env.INDEXER_RPC_URL && !env.INDEXER_CONTRACT) {
+    return undefined;
+  }
+
+  const parsed = indexerEnvSchema.parse(env);
+  return {
+    rpcUrl: parsed.INDEXER_RPC_URL,
+    contract: parsed.INDEXER_CONTRACT,
+    startBlock: parsed.INDEXER_START_BLOCK,
+    batchSize: parsed.INDEXER_BATCH_SIZE,
+    confirmations: parsed.INDEXER_CONFIRMATIONS,
+    pollIntervalMs: parsed.INDEXER_POLL_INTERVAL_MS,
+  };
+}
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  // Unix seconds
+  timestamp: number;
+}
+
+export interface ChainLog {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  topics: readonly string[];
+  data: string;
+}
+
+// The chain as the indexer sees it
+export interface LogSource {
+  getBlockNumber(): Promise<number>;
+  // undefined for blocks past the head, e.g. after an anvil reset
+  getBlock(blockNumber: number): Promise<BlockHeader | undefined>;
+  getLogs(address: string, fromBlock: number, toBlock: number, topics: string[]): Promise<ChainLog[]>;
+}
+
+export class RpcLogSource implements LogSource {
+  private provider: ethers.JsonRpcProvider;
+
+  // ethers caches identical requests briefly, which would hide a reorg that just happened
+  constructor(rpcUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getBlock(blockNumber: number): Promise<BlockHeader | undefined> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) return undefined;
+    return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+  }
+
+  async getLogs(address: string, fromBlock: number, toBlock: number, topics: string[]): Promise<ChainLog[]> {
+    const logs = await this.provider.getLogs({ address, fromBlock, toBlock, topics: [topics] });
+    return logs.map((entry) => ({
+      blockNumber: entry.blockNumber,
+      blockHash: entry.blockHash,
+      transactionHash: entry.transactionHash,
+      logIndex: entry.index,
+      topics: entry.topics,
+      data: entry.data,
+    }));
+  }
+}
+
+// Everything indexed from one block range, saved atomically
+export interface IndexedRange {
+  transfers: InsertIndexedTransfer[];
+  claims: InsertIndexedClaim[];
+  checkpoints: IndexerCheckpoint[];
+}
+
+export interface IndexerStore {
+  getLatestCheckpoint(): Promise<IndexerCheckpoint | undefined>;
+  // Up to `limit` checkpoints below `blockNumber`, newest first
+  getCheckpointsBefore(blockNumber: number, limit: number): Promise<IndexerCheckpoint[]>;
+  saveRange(range: IndexedRange): Promise<void>;
+  // Drops events and checkpoints above `blockNumber`
+  rollbackAfter(blockNumber: number): Promise<void>;
+  pruneCheckpoints(belowBlock: number): Promise<void>;
+}
+
+export interface SupplyTotals {
+  minted: string;
+  burned: string;
+  holders: number;
+}
+
+// Read side of the indexed data, behind the /api collection routes
+export interface CollectionStore {
+  getLatestCheckpoint(): Promise<IndexerCheckpoint | undefined>;
+  getSupplyTotals(query: CollectionQuery): Promise<SupplyTotals>;
+  getHolders(query: HoldersQuery): Promise<{ items: Holder[]; total: number }>;
+  getWalletTokens(address: string): Promise<WalletTokens>;
+  getMints(query: MintsQuery): Promise<{ items: Mint[]; total: number }>;
+}
+
+// Called after each saved range, and without one after a rollback, when any
+// indexed data may have changed
+export type IndexerListener = (range?: IndexedRange) => void;
+
+// Follows the drop contract's TransferSingle, TransferBatch and TokensClaimed logs
+// into the store. Progress is the latest checkpoint, so a restart resumes the
+// backfill where it stopped; a checkpoint whose hash no longer matches the chain
+// means a reorg, and everything above the newest matching checkpoint is re-indexed.
+export class Indexer {
+  private source: LogSource;
+  private store: IndexerStore;
+  private config: IndexerConfig;
+  private running: boolean;
+  private timer?: NodeJS.Timeout;
+  private listeners: Set<IndexerListener>;
+
+  constructor(source: LogSource, store: IndexerStore, config: IndexerConfig) {
+    this.source = source;
+    this.store = store;
+    this.config = config;
+    this.running = false;
+    this.listeners = new Set();
+  }
+
+  // Returns a function that unsubscribes
+  subscribe(listener: IndexerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(range?: IndexedRange) {
+    this.listeners.forEach((listener) => listener(range));
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    void this.poll();
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  private async poll() {
+    let backfilling = false;
+    try {
+      const indexed = await this.sync();
+      // A full batch means the head is further ahead; keep going without waiting
+      backfilling = indexed === this.config.batchSize;
+    } catch (error) {
+      log(`sync failed: ${error instanceof Error ? error.message : String(error)}`, "indexer");
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.poll(), backfilling ? 0 : this.config.pollIntervalMs);
+    }
+  }
+
+  // Indexes the next batch of blocks; returns how many blocks were indexed
+  async sync(): Promise<number> {
+    const head = (await this.source.getBlockNumber()) - this.config.confirmations;
+    const from = (await this.findResumeBlock()) + 1;
+    if (from > head) return 0;
+
+    const to = Math.min(head, from + this.config.batchSize - 1);
+    const range = await this.fetchRange(from, to);
+    await this.store.saveRange(range);
+    this.notify(range);
+    await this.store.pruneCheckpoints(to - REORG_WINDOW);
+
+    if (range.transfers.length > 0 || range.claims.length > 0) {
+      log(`blocks ${from}-${to}: ${range.transfers.length} transfers, ${range.claims.length} claims`, "indexer");
+    }
+    return to - from + 1;
+  }
+
+  // Newest indexed block still on the canonical chain, rolling back anything above it
+  private async findResumeBlock(): Promise<number> {
+    const latest = await this.store.getLatestCheckpoint();
+    if (!latest) return this.config.startBlock - 1;
+
+    let candidates = [latest];
+    while (candidates.length > 0) {
+      for (const checkpoint of candidates) {
+        const block = await this.source.getBlock(checkpoint.blockNumber);
+        if (block?.hash === checkpoint.blockHash) {
+          if (checkpoint.blockNumber < latest.blockNumber) {
+            log(`reorg detected, rewinding from block ${latest.blockNumber} to ${checkpoint.blockNumber}`, "indexer");
+            await this.store.rollbackAfter(checkpoint.blockNumber);
+            this.notify();
+          }
+          return checkpoint.blockNumber;
+        }
+      }
+      candidates = await this.store.getCheckpointsBefore(candidates[candidates.length - 1].blockNumber, 32);
+    }
+
+    log(`reorg deeper than the stored checkpoints, re-indexing from block ${this.config.startBlock}`, "indexer");
+    await this.store.rollbackAfter(this.config.startBlock - 1);
+    this.notify();
+    return this.config.startBlock - 1;
+  }
+
+  private async fetchRange(from: number, to: number): Promise<IndexedRange> {
+    const logs = await this.source.getLogs(this.config.contract, from, to, EVENT_TOPICS);
+    const range: IndexedRange = { transfers: [], claims: [], checkpoints: [] };
+
+    // Claims need their block's timestamp, and the range end is checkpointed even without events
+    const headers = new Map<number, BlockHeader>();
+    const claimBlocks = logs
+      .filter((entry) => entry.topics[0] === TOKENS_CLAIMED_TOPIC)
+      .map((entry) => entry.blockNumber);
+    for (const blockNumber of Array.from(new Set([...claimBlocks, to]))) {
+      const header = await this.source.getBlock(blockNumber);
+      if (!header) throw new Error(`Block ${blockNumber} not found`);
+      headers.set(blockNumber, header);
+    }
+
+    const checkpoints = new Map<number, string>();
+    for (const entry of logs) {
+      checkpoints.set(entry.blockNumber, entry.blockHash);
+      const event = EVENTS.parseLog({ topics: [...entry.topics], data: entry.data });
+      if (!event) continue;
+
+      const position = {
+        blockNumber: entry.blockNumber,
+        blockHash: entry.blockHash,
+        transactionHash: entry.transactionHash,
+        logIndex: entry.logIndex,
+      };
+
+      if (event.name === "TransferSingle" || event.name === "TransferBatch") {
+        // `values` would clash with Result.values(), so the amounts are read by position
+        const [operator, fromAddress, toAddress, idArg, valueArg] = event.args;
+        const ids: bigint[] = event.name === "TransferSingle" ? [idArg] : [...idArg];
+        const values: bigint[] = event.name === "TransferSingle" ? [valueArg] : [...valueArg];
+        ids.forEach((tokenId, batchIndex) => {
+          range.transfers.push({
+            ...position,
+            batchIndex,
+            operator: operator.toLowerCase(),
+            from: fromAddress.toLowerCase(),
+            to: toAddress.toLowerCase(),
+            tokenId: tokenId.toString(),
+            value: values[batchIndex].toString(),
+          });
+        });
+      } else if (event.name === "TokensClaimed") {
+        range.claims.push({
+          ...position,
+          blockTimestamp: headers.get(entry.blockNumber)!.timestamp,
+          claimConditionIndex: Number(event.args.claimConditionIndex),
+          claimer: event.args.claimer.toLowerCase(),
+          receiver: event.args.receiver.toLowerCase(),
+          tokenId: event.args.tokenId.toString(),
+          quantity: event.args.quantityClaimed.toString(),
+        });
+      }
+    }
+
+    checkpoints.set(to, headers.get(to)!.hash);
+    range.checkpoints = Array.from(checkpoints, ([blockNumber, blockHash]) => ({ blockNumber, blockHash }));
+    return range;
+  }
+}
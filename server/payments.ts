@@ -0,0 +1,395 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { type NextFunction, type Request, type RequestHandler, type Response } from "express";
+import { ethers } from "ethers";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  paymentPayloadSchema,
+  type Payment,
+  type PaymentPayload,
+  type PaymentRequiredResponse,
+  type PaymentRequirement,
+  type PaymentResponse,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+export const PAYMENT_HEADER = "X-PAYMENT";
+export const PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+const USDC_DECIMALS = 6;
+// An authorization must stay valid at least this long, to leave time for settlement
+const SETTLEMENT_MARGIN_SECONDS = 6;
+
+// USDC on the networks we deploy to; `asset` and the EIP-712 domain can be
+// overridden, and must be for a local chain
+const NETWORKS = {
+  base: { chainId: 8453, asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", name: "USD Coin", version: "2" },
+  "base-sepolia": { chainId: 84532, asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", name: "USDC", version: "2" },
+  local: { chainId: 31337, asset: "", name: "USD Coin", version: "2" },
+};
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid address");
+
+const paymentEnvSchema = z.object({
+  // Receives the payments; setting it enables paid endpoints
+  X402_PAY_TO: addressSchema,
+  X402_NETWORK: z.enum(["base", "base-sepolia", "local"]).default("base"),
+  X402_ASSET: addressSchema.optional(),
+  X402_ASSET_NAME: z.string().optional(),
+  X402_ASSET_VERSION: z.string().optional(),
+  // Without one, payments are checked locally and recorded but not settled on-chain
+  X402_FACILITATOR_URL: z.string().url().optional(),
+  // How long a payment requirement can be paid for
+  X402_MAX_TIMEOUT_SECONDS: z.coerce.number().int().min(10).default(300),
+  // Signs payment nonces; falls back to SESSION_SECRET
+  X402_NONCE_SECRET: z.string().min(16).optional(),
+  SESSION_SECRET: z.string().optional(),
+});
+
+export interface PaymentConfig {
+  network: keyof typeof NETWORKS;
+  chainId: number;
+  asset: string;
+  assetName: string;
+  assetVersion: string;
+  payTo: string;
+  facilitatorUrl?: string;
+  maxTimeoutSeconds: number;
+  nonceSecret?: string;
+}
+
+// Reads X402_* variables; undefined when paid endpoints aren't configured
+export function loadPaymentConfig(env: NodeJS.ProcessEnv = process.env): PaymentConfig | undefined {
+  if (!env.X402_PAY_TO) {
+    return undefined;
+  }
+
+  const parsed = paymentEnvSchema.parse(env);
+  const network = NETWORKS[parsed.X402_NETWORK];
+  const asset = parsed.X402_ASSET ?? network.asset;
+  if (!asset) {
+    throw new Error(`X402_ASSET must be set for the ${parsed.X402_NETWORK} network`);
+  }
+  return {
+    network: parsed.X402_NETWORK,
+    chainId: network.chainId,
+    asset,
+    assetName: parsed.X402_ASSET_NAME ?? network.name,
+    assetVersion: parsed.X402_ASSET_VERSION ?? network.version,
+    payTo: parsed.X402_PAY_TO,
+    facilitatorUrl: parsed.X402_FACILITATOR_URL,
+    maxTimeoutSeconds: parsed.X402_MAX_TIMEOUT_SECONDS,
+    nonceSecret: parsed.X402_NONCE_SECRET ?? parsed.SESSION_SECRET,
+  };
+}
+
+// A payment that can't be accepted; `message` is sent back to the client
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// Checks a signed authorization and moves the funds it authorizes
+export interface PaymentVerifier {
+  // Throws PaymentError when the payment isn't acceptable
+  verify(requirement: PaymentRequirement, payment: PaymentPayload): Promise<void>;
+  // Resolves to the settlement transaction, or null when the payment is only recorded
+  settle(requirement: PaymentRequirement, payment: PaymentPayload): Promise<string | null>;
+}
+
+// Checks the signature itself and settles nothing: the payment is only recorded.
+// For development and tests, where no facilitator is available
+export class LocalPaymentVerifier implements PaymentVerifier {
+  async verify(requirement: PaymentRequirement, payment: PaymentPayload): Promise<void> {
+    const { authorization, signature } = payment.payload;
+    const domain = {
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: requirement.chainId,
+      verifyingContract: requirement.asset,
+    };
+
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, authorization, signature);
+    } catch {
+      throw new PaymentError("Malformed payment signature");
+    }
+    if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+      throw new PaymentError("Payment signature does not match the payer");
+    }
+  }
+
+  async settle(): Promise<string | null> {
+    return null;
+  }
+}
+
+const facilitatorVerifyResponseSchema = z.object({
+  isValid: z.boolean(),
+  invalidReason: z.string().nullish(),
+});
+
+const facilitatorSettleResponseSchema = z.object({
+  success: z.boolean(),
+  errorReason: z.string().nullish(),
+  transaction: z.string().nullish(),
+});
+
+// Delegates to an x402 facilitator, which checks the payer's balance and submits
+// transferWithAuthorization on-chain
+export class FacilitatorPaymentVerifier implements PaymentVerifier {
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async verify(requirement: PaymentRequirement, payment: PaymentPayload): Promise<void> {
+    const result = facilitatorVerifyResponseSchema.parse(await this.post("verify", requirement, payment));
+    if (!result.isValid) {
+      throw new PaymentError(`Payment rejected: ${result.invalidReason ?? "invalid"}`);
+    }
+  }
+
+  async settle(requirement: PaymentRequirement, payment: PaymentPayload): Promise<string | null> {
+    const result = facilitatorSettleResponseSchema.parse(await this.post("settle", requirement, payment));
+    if (!result.success) {
+      throw new PaymentError(`Payment could not be settled: ${result.errorReason ?? "unknown error"}`);
+    }
+    return result.transaction ?? null;
+  }
+
+  private async post(path: string, requirement: PaymentRequirement, payment: PaymentPayload): Promise<unknown> {
+    const res = await fetch(`${this.url}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ x402Version: 1, paymentPayload: payment, paymentRequirements: requirement }),
+      signal: AbortSignal.timeout(30_000),
+    });
+    if (!res.ok) {
+      throw new Error(`Facilitator ${path} failed: ${res.status} ${await res.text()}`);
+    }
+    return res.json();
+  }
+}
+
+// Nonces that carry their own proof: an expiry and a random salt, then an HMAC over
+// them, the resource and the amount. Issuing one stores nothing, so unpaid 402s
+// cost no storage; a nonce is only recorded once a payment uses it.
+export class PaymentNonces {
+  private secret: string;
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  issue(resource: string, amount: string, ttlSeconds: number): string {
+    const head = Buffer.alloc(16);
+    head.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000) + ttlSeconds));
+    randomBytes(8).copy(head, 8);
+    return ethers.hexlify(Buffer.concat([head, this.mac(head, resource, amount)]));
+  }
+
+  // When the nonce stops being payable; throws PaymentError unless this server
+  // issued it for the resource and amount and it hasn't expired
+  check(nonce: string, resource: string, amount: string): Date {
+    const bytes = Buffer.from(ethers.getBytes(nonce));
+    const head = bytes.subarray(0, 16);
+    if (bytes.length !== 32 || !timingSafeEqual(bytes.subarray(16), this.mac(head, resource, amount))) {
+      throw new PaymentError("Payment nonce was not issued for this resource and price");
+    }
+    const expiresAt = new Date(Number(head.readBigUInt64BE(0)) * 1000);
+    if (expiresAt <= new Date()) {
+      throw new PaymentError("Payment nonce has expired");
+    }
+    return expiresAt;
+  }
+
+  private mac(head: Buffer, resource: string, amount: string): Buffer {
+    return createHmac("sha256", this.secret).update(head).update(`${resource}\n${amount}`).digest().subarray(0, 16);
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by a payment gate once the request is paid for
+      payment?: Payment;
+    }
+  }
+}
+
+function decodePayment(header: string): PaymentPayload {
+  try {
+    return paymentPayloadSchema.parse(JSON.parse(Buffer.from(header, "base64").toString("utf8")));
+  } catch (error) {
+    throw new PaymentError(
+      error instanceof ZodError ? fromZodError(error).message : `${PAYMENT_HEADER} is not base64-encoded JSON`,
+    );
+  }
+}
+
+// The terms of the authorization: who is paid, how much and for how long
+function checkAuthorization(requirement: PaymentRequirement, payment: PaymentPayload) {
+  const { authorization } = payment.payload;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (payment.network !== requirement.network) {
+    throw new PaymentError(`Payment is on ${payment.network}, expected ${requirement.network}`);
+  }
+  if (authorization.to.toLowerCase() !== requirement.payTo.toLowerCase()) {
+    throw new PaymentError(`Payment must be made to ${requirement.payTo}`);
+  }
+  if (authorization.value !== requirement.maxAmountRequired) {
+    throw new PaymentError(`Payment must be exactly ${requirement.maxAmountRequired} base units`);
+  }
+  if (Number(authorization.validAfter) > now) {
+    throw new PaymentError("Payment authorization is not valid yet");
+  }
+  if (Number(authorization.validBefore) <= now + SETTLEMENT_MARGIN_SECONDS) {
+    throw new PaymentError("Payment authorization has expired");
+  }
+}
+
+function encodeHeader(value: PaymentResponse): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+// Returns a middleware factory for paid endpoints. A request without a payment is
+// answered with 402 and a requirement carrying a fresh nonce; the client signs a
+// USDC transferWithAuthorization using that nonce and retries with it base64-encoded
+// in X-PAYMENT. Each nonce pays for exactly one request.
+export function createPaymentGate(config: PaymentConfig, verifier: PaymentVerifier, nonces: PaymentNonces) {
+  function paymentRequired(res: Response, requirement: Omit<PaymentRequirement, "nonce">, error: string) {
+    const nonce = nonces.issue(requirement.resource, requirement.maxAmountRequired, requirement.maxTimeoutSeconds);
+    const body: PaymentRequiredResponse = { x402Version: 1, error, accepts: [{ ...requirement, nonce }] };
+    res.status(402).json(body);
+  }
+
+  // `price` is in USDC, e.g. "0.10"
+  return function requirePayment(price: string, description: string, mimeType = "application/json"): RequestHandler {
+    const amount = ethers.parseUnits(price, USDC_DECIMALS).toString();
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const requirement = {
+        scheme: "exact" as const,
+        network: config.network,
+        chainId: config.chainId,
+        maxAmountRequired: amount,
+        asset: config.asset,
+        payTo: config.payTo,
+        resource: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+        description,
+        mimeType,
+        maxTimeoutSeconds: config.maxTimeoutSeconds,
+        extra: { name: config.assetName, version: config.assetVersion },
+      };
+
+      try {
+        const header = req.get(PAYMENT_HEADER);
+        if (!header) {
+          return paymentRequired(res, requirement, `${PAYMENT_HEADER} header is required`);
+        }
+
+        let payment: PaymentPayload;
+        let expiresAt: Date;
+        try {
+          payment = decodePayment(header);
+          const { nonce } = payment.payload.authorization;
+          expiresAt = nonces.check(nonce, requirement.resource, amount);
+          checkAuthorization({ ...requirement, nonce }, payment);
+          await verifier.verify({ ...requirement, nonce }, payment);
+        } catch (error) {
+          if (error instanceof PaymentError) {
+            return paymentRequired(res, requirement, error.message);
+          }
+          throw error;
+        }
+
+        const { nonce, from } = payment.payload.authorization;
+        // Recorded before settling so two requests carrying the same payment can't both be served
+        const claimed = await storage.createPayment({
+          nonce,
+          resource: requirement.resource,
+          network: requirement.network,
+          asset: requirement.asset,
+          payTo: requirement.payTo,
+          amount,
+          expiresAt,
+          payer: from.toLowerCase(),
+        });
+        if (!claimed) {
+          return paymentRequired(res, requirement, "Payment nonce was already used");
+        }
+
+        let transaction: string | null;
+        try {
+          transaction = await verifier.settle({ ...requirement, nonce }, payment);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          await storage.updatePayment(nonce, "settling", { status: "failed", error: reason });
+          if (!(error instanceof PaymentError)) {
+            log(`settling ${nonce} failed: ${reason}`, "payments");
+          }
+          return paymentRequired(res, requirement, error instanceof PaymentError ? error.message : "Payment could not be settled");
+        }
+
+        req.payment = await storage.updatePayment(nonce, "settling", {
+          status: "settled",
+          transaction,
+          settledAt: new Date(),
+        });
+        res.setHeader(PAYMENT_RESPONSE_HEADER, encodeHeader({
+          success: true,
+          transaction,
+          network: config.network,
+          payer: ethers.getAddress(from),
+        }));
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+}
+
+// Nonces must verify across restarts and instances, so they need a fixed secret
+// anywhere but development
+export function createPaymentNonces(config: PaymentConfig, env: string): PaymentNonces {
+  if (config.nonceSecret) {
+    return new PaymentNonces(config.nonceSecret);
+  }
+  if (env !== "development") {
+    throw new Error("X402_NONCE_SECRET or SESSION_SECRET must be set outside development");
+  }
+  log("no X402_NONCE_SECRET, using a random one; unpaid requirements end when the server restarts", "payments");
+  return new PaymentNonces(randomBytes(32).toString("hex"));
+}
+
+// The local verifier moves no USDC, so it would give paid content away for a bare
+// signature anywhere but development
+export function createPaymentVerifier(config: PaymentConfig, env: string): PaymentVerifier {
+  if (config.facilitatorUrl) {
+    return new FacilitatorPaymentVerifier(config.facilitatorUrl);
+  }
+  if (env !== "development") {
+    throw new Error("X402_FACILITATOR_URL must be set outside development");
+  }
+  log("no X402_FACILITATOR_URL, payments are verified locally and recorded but not settled", "payments");
+  return new LocalPaymentVerifier();
+}
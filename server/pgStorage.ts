@@ -0,0 +1,329 @@
+import { ethers } from "ethers";
+import { and, count, desc, eq, gt, lt, sql, type SQL } from "drizzle-orm";
+import {
+  addressBook,
+  authNonces,
+  claims,
+  commandLog,
+  indexerCheckpoints,
+  payments,
+  transfers,
+  walletSessions,
+  walletTransactions,
+  type AddressBookEntry,
+  type AuthNonce,
+  type CollectionQuery,
+  type CommandLogEntry,
+  type Holder,
+  type HoldersQuery,
+  type IndexerCheckpoint,
+  type InsertAddressBookEntry,
+  type InsertAuthNonce,
+  type InsertCommandLogEntry,
+  type InsertPayment,
+  type InsertWalletSession,
+  type InsertWalletTransaction,
+  type Mint,
+  type MintsQuery,
+  type Payment,
+  type PaymentStatus,
+  type PaymentUpdate,
+  type WalletSession,
+  type WalletTokens,
+  type WalletTransaction,
+} from "@shared/schema";
+import { type Database } from "./db";
+import { type IndexedRange, type SupplyTotals } from "./indexer";
+import { type IStorage } from "./storage";
+
+// Rows per INSERT, to stay under Postgres' bind parameter limit
+const INSERT_CHUNK_SIZE = 500;
+const ZERO_ADDRESS = ethers.ZeroAddress;
+
+function chunks<T>(rows: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    result.push(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+  return result;
+}
+
+// Postgres through Drizzle, on the tables in shared/schema.ts (`npm run db:push` creates them)
+export class PgStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getLatestCheckpoint(): Promise<IndexerCheckpoint | undefined> {
+    const [checkpoint] = await this.db
+      .select()
+      .from(indexerCheckpoints)
+      .orderBy(desc(indexerCheckpoints.blockNumber))
+      .limit(1);
+    return checkpoint;
+  }
+
+  getCheckpointsBefore(blockNumber: number, limit: number): Promise<IndexerCheckpoint[]> {
+    return this.db
+      .select()
+      .from(indexerCheckpoints)
+      .where(lt(indexerCheckpoints.blockNumber, blockNumber))
+      .orderBy(desc(indexerCheckpoints.blockNumber))
+      .limit(limit);
+  }
+
+  async saveRange(range: IndexedRange): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const rows of chunks(range.transfers)) {
+        await tx.insert(transfers).values(rows).onConflictDoNothing();
+      }
+      for (const rows of chunks(range.claims)) {
+        await tx.insert(claims).values(rows).onConflictDoNothing();
+      }
+      for (const checkpoint of range.checkpoints) {
+        await tx
+          .insert(indexerCheckpoints)
+          .values(checkpoint)
+          .onConflictDoUpdate({ target: indexerCheckpoints.blockNumber, set: { blockHash: checkpoint.blockHash } });
+      }
+    });
+  }
+
+  async rollbackAfter(blockNumber: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(transfers).where(gt(transfers.blockNumber, blockNumber));
+      await tx.delete(claims).where(gt(claims.blockNumber, blockNumber));
+      await tx.delete(indexerCheckpoints).where(gt(indexerCheckpoints.blockNumber, blockNumber));
+    });
+  }
+
+  async pruneCheckpoints(belowBlock: number): Promise<void> {
+    await this.db.delete(indexerCheckpoints).where(lt(indexerCheckpoints.blockNumber, belowBlock));
+  }
+
+  // Positive balances per (address, token_id), replayed from the transfer log
+  private balances(tokenId?: string): SQL {
+    return sql`(
+      select address, token_id, sum(delta) as balance from (
+        select ${transfers.to} as address, ${transfers.tokenId} as token_id, ${transfers.value} as delta
+          from ${transfers} where ${transfers.to} <> ${ZERO_ADDRESS}
+        union all
+        select ${transfers.from}, ${transfers.tokenId}, -${transfers.value}
+          from ${transfers} where ${transfers.from} <> ${ZERO_ADDRESS}
+      ) moves
+      ${tokenId === undefined ? sql`` : sql`where token_id = ${tokenId}`}
+      group by address, token_id
+      having sum(delta) > 0
+    ) balances`;
+  }
+
+  async getSupplyTotals(query: CollectionQuery): Promise<SupplyTotals> {
+    const [totals] = await this.db
+      .select({
+        minted: sql<string>`coalesce(sum(${transfers.value}) filter (where ${transfers.from} = ${ZERO_ADDRESS}), 0)::text`,
+        burned: sql<string>`coalesce(sum(${transfers.value}) filter (where ${transfers.to} = ${ZERO_ADDRESS}), 0)::text`,
+      })
+      .from(transfers)
+      .where(query.tokenId === undefined ? undefined : eq(transfers.tokenId, query.tokenId));
+    const { rows } = await this.db.execute<{ holders: number }>(
+      sql`select count(distinct address)::int as holders from ${this.balances(query.tokenId)}`,
+    );
+    return { ...totals, holders: rows[0].holders };
+  }
+
+  async getHolders(query: HoldersQuery): Promise<{ items: Holder[]; total: number }> {
+    const sortColumn = query.sort === "balance" ? sql`sum(balance)` : sql`address`;
+    const direction = query.order === "asc" ? sql`asc` : sql`desc`;
+    const [{ rows }, totals] = await Promise.all([
+      this.db.execute<{ address: string; balance: string; token_ids: number }>(sql`
+        select address, sum(balance)::text as balance, count(*)::int as token_ids
+        from ${this.balances(query.tokenId)}
+        group by address
+        order by ${sortColumn} ${direction}, address
+        limit ${query.pageSize} offset ${(query.page - 1) * query.pageSize}
+      `),
+      this.db.execute<{ total: number }>(
+        sql`select count(distinct address)::int as total from ${this.balances(query.tokenId)}`,
+      ),
+    ]);
+
+    return {
+      items: rows.map((row) => ({
+        address: ethers.getAddress(row.address),
+        balance: row.balance,
+        tokenIds: row.token_ids,
+      })),
+      total: totals.rows[0].total,
+    };
+  }
+
+  async getWalletTokens(address: string): Promise<WalletTokens> {
+    const { rows } = await this.db.execute<{ token_id: string; balance: string }>(sql`
+      select token_id::text, balance::text from ${this.balances()}
+      where address = ${address.toLowerCase()}
+      order by token_id
+    `);
+    return {
+      address: ethers.getAddress(address),
+      tokens: rows.map((row) => ({ tokenId: row.token_id, balance: row.balance })),
+    };
+  }
+
+  async getMints(query: MintsQuery): Promise<{ items: Mint[]; total: number }> {
+    const where = and(
+      query.tokenId === undefined ? undefined : eq(claims.tokenId, query.tokenId),
+      query.receiver === undefined ? undefined : eq(claims.receiver, query.receiver.toLowerCase()),
+    );
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(claims)
+        .where(where)
+        .orderBy(desc(claims.blockNumber), desc(claims.logIndex))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      this.db.select({ total: count() }).from(claims).where(where),
+    ]);
+
+    return {
+      items: rows.map((row) => ({
+        transactionHash: row.transactionHash,
+        blockNumber: row.blockNumber,
+        blockTimestamp: row.blockTimestamp,
+        claimer: ethers.getAddress(row.claimer),
+        receiver: ethers.getAddress(row.receiver),
+        tokenId: row.tokenId,
+        quantity: row.quantity,
+      })),
+      total,
+    };
+  }
+
+  async createAuthNonce(nonce: InsertAuthNonce): Promise<AuthNonce> {
+    // Unused nonces would otherwise pile up
+    await this.db.delete(authNonces).where(lt(authNonces.expiresAt, new Date()));
+    const [created] = await this.db.insert(authNonces).values(nonce).returning();
+    return created;
+  }
+
+  async consumeAuthNonce(nonce: string): Promise<boolean> {
+    // DELETE ... RETURNING is atomic, so two requests racing on one nonce can't both win
+    const deleted = await this.db
+      .delete(authNonces)
+      .where(and(eq(authNonces.nonce, nonce), gt(authNonces.expiresAt, new Date())))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async createWalletSession(session: InsertWalletSession): Promise<WalletSession> {
+    const [created] = await this.db
+      .insert(walletSessions)
+      .values({ ...session, address: session.address.toLowerCase() })
+      .returning();
+    return created;
+  }
+
+  async getWalletSession(id: string): Promise<WalletSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(walletSessions)
+      .where(and(eq(walletSessions.id, id), gt(walletSessions.expiresAt, new Date())));
+    return session;
+  }
+
+  async deleteWalletSession(id: string): Promise<void> {
+    await this.db.delete(walletSessions).where(eq(walletSessions.id, id));
+  }
+
+  async saveTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction> {
+    const address = transaction.address.toLowerCase();
+    const [saved] = await this.db
+      .insert(walletTransactions)
+      .values({ ...transaction, address })
+      .onConflictDoUpdate({
+        target: walletTransactions.hash,
+        set: { status: transaction.status, blockNumber: transaction.blockNumber, error: transaction.error },
+        setWhere: eq(walletTransactions.address, address),
+      })
+      .returning();
+    if (saved) return saved;
+
+    const [existing] = await this.db.select().from(walletTransactions).where(eq(walletTransactions.hash, transaction.hash));
+    return existing;
+  }
+
+  getTransactions(address: string, limit: number): Promise<WalletTransaction[]> {
+    return this.db
+      .select()
+      .from(walletTransactions)
+      .where(eq(walletTransactions.address, address.toLowerCase()))
+      .orderBy(desc(walletTransactions.submittedAt))
+      .limit(limit);
+  }
+
+  getAddressBook(owner: string, limit: number): Promise<AddressBookEntry[]> {
+    return this.db
+      .select()
+      .from(addressBook)
+      .where(eq(addressBook.owner, owner.toLowerCase()))
+      .orderBy(desc(addressBook.usedAt))
+      .limit(limit);
+  }
+
+  // Addresses are stored checksummed, so the unique key ignores case
+  async saveAddressBookEntry(entry: InsertAddressBookEntry): Promise<AddressBookEntry> {
+    const name = entry.name ?? null;
+    const [saved] = await this.db
+      .insert(addressBook)
+      .values({ owner: entry.owner.toLowerCase(), address: ethers.getAddress(entry.address), name })
+      .onConflictDoUpdate({ target: [addressBook.owner, addressBook.address], set: { name, usedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async deleteAddressBookEntry(owner: string, address: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(addressBook)
+      .where(and(eq(addressBook.owner, owner.toLowerCase()), eq(addressBook.address, ethers.getAddress(address))))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async logCommand(entry: InsertCommandLogEntry): Promise<CommandLogEntry> {
+    const [logged] = await this.db
+      .insert(commandLog)
+      .values({ ...entry, address: entry.address?.toLowerCase() })
+      .returning();
+    return logged;
+  }
+
+  getCommandLog(address: string, limit: number): Promise<CommandLogEntry[]> {
+    return this.db
+      .select()
+      .from(commandLog)
+      .where(eq(commandLog.address, address.toLowerCase()))
+      .orderBy(desc(commandLog.createdAt))
+      .limit(limit);
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment | undefined> {
+    const [created] = await this.db.insert(payments).values(payment).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async getPayment(nonce: string): Promise<Payment | undefined> {
+    const [payment] = await this.db.select().from(payments).where(eq(payments.nonce, nonce));
+    return payment;
+  }
+
+  async updatePayment(nonce: string, from: PaymentStatus, changes: PaymentUpdate): Promise<Payment | undefined> {
+    const [updated] = await this.db
+      .update(payments)
+      .set(changes)
+      .where(and(eq(payments.nonce, nonce), eq(payments.status, from)))
+      .returning();
+    return updated;
+  }
+}
@@ -1,13 +1,333 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import path from "path";
+import { type z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  activityQuerySchema,
+  addressBookResponseSchema,
+  collectionQuerySchema,
+  collectionStatsSchema,
+  commandLogResponseSchema,
+  holdersExportSchema,
+  holdersQuerySchema,
+  holdersResponseSchema,
+  vaultResponseSchema,
+  mintsQuerySchema,
+  mintsResponseSchema,
+  recordCommandSchema,
+  recordTransactionSchema,
+  saveAddressBookEntrySchema,
+  transactionsResponseSchema,
+  walletAddressParamsSchema,
+  walletTokensSchema,
+} from "@shared/schema";
 import { storage } from "./storage";
+import { loadAllowlist } from "./allowlist";
+import { Indexer, RpcLogSource, loadIndexerConfig } from "./indexer";
+import { DropReader } from "./drop";
+import { requireWallet, setupAuth } from "./auth";
+import { createPaymentGate, createPaymentNonces, createPaymentVerifier, loadPaymentConfig } from "./payments";
+import { BalanceCache, createHolderGate } from "./holders";
+import { listVault, resolveVaultFile } from "./vault";
+import { log } from "./vite";
+
+// The drop sells token 0 unless a request asks about another
+const DEFAULT_TOKEN_ID = "0";
+// USDC
+const HOLDERS_EXPORT_PRICE = "0.10";
+const VAULT_DIR = path.resolve(process.env.VAULT_DIR || "vault");
+// Holding this token unlocks the vault
+const VAULT_TOKEN_ID = process.env.VAULT_TOKEN_ID || DEFAULT_TOKEN_ID;
+
+// Parses request input, answering 400 with the validation message when it doesn't fit
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, res: Response): T | undefined {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  setupAuth(app);
+
+  const allowlistPath = path.resolve(process.env.ALLOWLIST_SNAPSHOT || "allowlist.json");
+  const allowlist = loadAllowlist(allowlistPath);
+  if (allowlist) {
+    log(`loaded allowlist ${allowlistPath} (root ${allowlist.root})`);
+  }
+
+  const indexerConfig = loadIndexerConfig();
+  let collection: { drop: DropReader; contract: string } | undefined;
+  let requireHolder: (tokenId: string, minBalance?: bigint) => RequestHandler[] = () => [
+    (_req, res) => res.status(503).json({ message: "Holder checks need the indexer configured" }),
+  ];
+  if (indexerConfig) {
+    const indexer = new Indexer(new RpcLogSource(indexerConfig.rpcUrl), storage, indexerConfig);
+    indexer.start();
+    log(`indexing ${indexerConfig.contract} from block ${indexerConfig.startBlock}`, "indexer");
+    if (!process.env.DATABASE_URL) {
+      log("no DATABASE_URL, indexed data is kept in memory only", "indexer");
+    }
+
+    collection = {
+      drop: new DropReader(indexerConfig.rpcUrl, indexerConfig.contract),
+      contract: indexerConfig.contract,
+    };
+
+    // Balances are read on-chain, and re-read once the indexer sees them change
+    const balances = new BalanceCache(collection.drop);
+    indexer.subscribe((range) => balances.handleIndexed(range));
+    requireHolder = createHolderGate(balances);
+  }
+
+  const paymentConfig = loadPaymentConfig();
+  const requirePayment = paymentConfig
+    ? createPaymentGate(
+        paymentConfig,
+        createPaymentVerifier(paymentConfig, app.get("env")),
+        createPaymentNonces(paymentConfig, app.get("env")),
+      )
+    : () => (_req: Request, res: Response) => res.status(503).json({ message: "Payments not configured" });
+  if (paymentConfig) {
+    log(`paid endpoints pay ${paymentConfig.payTo} on ${paymentConfig.network}`, "payments");
+  }
+
+  app.get("/api/allowlist/:address", (req, res) => {
+    if (!allowlist) {
+      return res.status(404).json({ message: "No allowlist configured" });
+    }
+
+    const proof = allowlist.getProof(req.params.address);
+    if (!proof) {
+      return res.status(404).json({ message: "Address not on allowlist" });
+    }
+    res.json(proof);
+  });
+
+  // Collection data comes from the indexer's tables
+  app.use(["/api/collection", "/api/holders", "/api/wallets", "/api/mints"], (_req, res, next) => {
+    if (!collection) {
+      return res.status(503).json({ message: "Indexer not configured" });
+    }
+    next();
+  });
+
+  app.get("/api/collection", async (req, res, next) => {
+    const query = validate(collectionQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const { drop, contract } = collection!;
+      const [totals, price, checkpoint] = await Promise.all([
+        storage.getSupplyTotals(query),
+        drop.getPrice(query.tokenId ?? DEFAULT_TOKEN_ID),
+        storage.getLatestCheckpoint(),
+      ]);
+      res.json(collectionStatsSchema.parse({
+        contract,
+        supply: (BigInt(totals.minted) - BigInt(totals.burned)).toString(),
+        ...totals,
+        price,
+        indexedBlock: checkpoint?.blockNumber ?? null,
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/holders", async (req, res, next) => {
+    const query = validate(holdersQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const holders = await storage.getHolders(query);
+      res.json(holdersResponseSchema.parse({ ...holders, page: query.page, pageSize: query.pageSize }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get(
+    "/api/holders/export",
+    // Checked before paying, so a malformed request isn't charged for
+    (req, res, next) => {
+      if (validate(collectionQuerySchema, req.query, res)) next();
+    },
+    requirePayment(HOLDERS_EXPORT_PRICE, "Every holder of the collection with their balances"),
+    async (req, res, next) => {
+      try {
+        const query = collectionQuerySchema.parse(req.query);
+        const sort = { sort: "balance" as const, order: "desc" as const, tokenId: query.tokenId };
+        // The first query only counts, so the second can fetch everything in one page
+        const { total } = await storage.getHolders({ ...sort, page: 1, pageSize: 1 });
+        const [{ items }, checkpoint] = await Promise.all([
+          storage.getHolders({ ...sort, page: 1, pageSize: Math.max(total, 1) }),
+          storage.getLatestCheckpoint(),
+        ]);
+        res.json(holdersExportSchema.parse({
+          contract: collection!.contract,
+          indexedBlock: checkpoint?.blockNumber ?? null,
+          holders: items,
+        }));
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  app.get("/api/wallets/:address/tokens", async (req, res, next) => {
+    const params = validate(walletAddressParamsSchema, req.params, res);
+    if (!params) return;
+
+    try {
+      res.json(walletTokensSchema.parse(await storage.getWalletTokens(params.address)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/mints", async (req, res, next) => {
+    const query = validate(mintsQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const mints = await storage.getMints(query);
+      res.json(mintsResponseSchema.parse({ ...mints, page: query.page, pageSize: query.pageSize }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/vault", ...requireHolder(VAULT_TOKEN_ID), async (_req, res, next) => {
+    try {
+      res.json(vaultResponseSchema.parse({ tokenId: VAULT_TOKEN_ID, items: await listVault(VAULT_DIR) }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/vault/:name", ...requireHolder(VAULT_TOKEN_ID), async (req, res, next) => {
+    try {
+      const file = await resolveVaultFile(VAULT_DIR, req.params.name);
+      if (!file) {
+        return res.status(404).json({ message: "No such file in the vault" });
+      }
+      res.download(file);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Terminal activity of the signed-in wallet: the transactions it sent, the
+  // addresses it used and the commands it ran
+  app.get("/api/transactions", requireWallet, async (req, res, next) => {
+    const query = validate(activityQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const transactions = await storage.getTransactions(req.wallet!.address, query.limit);
+      res.json(transactionsResponseSchema.parse({
+        items: transactions.map((tx) => ({
+          hash: tx.hash,
+          status: tx.status,
+          kind: tx.kind,
+          description: tx.description,
+          chainId: tx.chainId,
+          blockNumber: tx.blockNumber ?? undefined,
+          error: tx.error ?? undefined,
+          submittedAt: tx.submittedAt.getTime(),
+        })),
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/transactions", requireWallet, async (req, res, next) => {
+    const body = validate(recordTransactionSchema, req.body, res);
+    if (!body) return;
+
+    try {
+      await storage.saveTransaction({ ...body, address: req.wallet!.address, submittedAt: new Date(body.submittedAt) });
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/address-book", requireWallet, async (req, res, next) => {
+    const query = validate(activityQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const entries = await storage.getAddressBook(req.wallet!.address, query.limit);
+      res.json(addressBookResponseSchema.parse({
+        items: entries.map((entry) => ({ address: entry.address, name: entry.name, usedAt: entry.usedAt.toISOString() })),
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/address-book", requireWallet, async (req, res, next) => {
+    const body = validate(saveAddressBookEntrySchema, req.body, res);
+    if (!body) return;
+
+    try {
+      await storage.saveAddressBookEntry({ ...body, owner: req.wallet!.address });
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/address-book/:address", requireWallet, async (req, res, next) => {
+    const params = validate(walletAddressParamsSchema, req.params, res);
+    if (!params) return;
+
+    try {
+      if (!(await storage.deleteAddressBookEntry(req.wallet!.address, params.address))) {
+        return res.status(404).json({ message: "Address not in your address book" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/commands", requireWallet, async (req, res, next) => {
+    const query = validate(activityQuerySchema, req.query, res);
+    if (!query) return;
+
+    try {
+      const entries = await storage.getCommandLog(req.wallet!.address, query.limit);
+      res.json(commandLogResponseSchema.parse({
+        items: entries.map((entry) => ({
+          command: entry.command,
+          input: entry.input,
+          success: entry.success,
+          createdAt: entry.createdAt.toISOString(),
+        })),
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/commands", requireWallet, async (req, res, next) => {
+    const body = validate(recordCommandSchema, req.body, res);
+    if (!body) return;
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+    try {
+      await storage.logCommand({ ...body, sessionId: req.wallet!.id, address: req.wallet!.address });
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
 
   const httpServer = createServer(app);
 
@@ -1,38 +1,386 @@
-import { type User, type InsertUser } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+import {
+  type AddressBookEntry,
+  type AuthNonce,
+  type CollectionQuery,
+  type CommandLogEntry,
+  type Holder,
+  type HoldersQuery,
+  type IndexedClaim,
+  type IndexedTransfer,
+  type IndexerCheckpoint,
+  type InsertAddressBookEntry,
+  type InsertAuthNonce,
+  type InsertCommandLogEntry,
+  type InsertPayment,
+  type InsertWalletSession,
+  type InsertWalletTransaction,
+  type Mint,
+  type MintsQuery,
+  type Payment,
+  type PaymentStatus,
+  type PaymentUpdate,
+  type WalletSession,
+  type WalletTokens,
+  type WalletTransaction,
+} from "@shared/schema";
+import { createDatabase } from "./db";
+import { PgStorage } from "./pgStorage";
+import { type CollectionStore, type IndexedRange, type IndexerStore, type SupplyTotals } from "./indexer";
 
-// modify the interface with any CRUD methods
-// you might need
+// Everything the server persists: indexed chain data plus per-wallet state.
+// Addresses used as lookup keys are compared case-insensitively.
+export interface IStorage extends IndexerStore, CollectionStore {
+  createAuthNonce(nonce: InsertAuthNonce): Promise<AuthNonce>;
+  // Deletes the nonce; true only the first time an unexpired nonce is consumed
+  consumeAuthNonce(nonce: string): Promise<boolean>;
 
-export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createWalletSession(session: InsertWalletSession): Promise<WalletSession>;
+  // Unexpired session, or undefined
+  getWalletSession(id: string): Promise<WalletSession | undefined>;
+  deleteWalletSession(id: string): Promise<void>;
+
+  // Inserts, or updates the status of a hash already saved for the same address;
+  // a hash saved by another address is left alone
+  saveTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction>;
+  // Newest first
+  getTransactions(address: string, limit: number): Promise<WalletTransaction[]>;
+
+  // Most recently used first
+  getAddressBook(owner: string, limit: number): Promise<AddressBookEntry[]>;
+  // Marks the address as used now, replacing the name it was entered as
+  saveAddressBookEntry(entry: InsertAddressBookEntry): Promise<AddressBookEntry>;
+  deleteAddressBookEntry(owner: string, address: string): Promise<boolean>;
+
+  logCommand(entry: InsertCommandLogEntry): Promise<CommandLogEntry>;
+  // Newest first
+  getCommandLog(address: string, limit: number): Promise<CommandLogEntry[]>;
+
+  // Records a payment as it starts settling; undefined when its nonce was already
+  // used, so only one request can be served per payment
+  createPayment(payment: InsertPayment): Promise<Payment | undefined>;
+  getPayment(nonce: string): Promise<Payment | undefined>;
+  // Applies the changes only while the payment is still in status `from`, so
+  // concurrent requests can't both settle it; undefined if it wasn't
+  updatePayment(nonce: string, from: PaymentStatus, changes: PaymentUpdate): Promise<Payment | undefined>;
+}
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+function paginate<T>(items: T[], page: number, pageSize: number): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize);
 }
 
+// Keeps everything in process memory; used when no DATABASE_URL is set, e.g. for
+// local development against anvil
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+  private transfers: Map<string, IndexedTransfer>;
+  private claims: Map<string, IndexedClaim>;
+  private checkpoints: Map<number, string>;
+  private nonces: Map<string, AuthNonce>;
+  private sessions: Map<string, WalletSession>;
+  private transactions: Map<string, WalletTransaction>;
+  private addressBook: Map<string, AddressBookEntry>;
+  private commandLog: CommandLogEntry[];
+  private payments: Map<string, Payment>;
+  private nextId: number;
 
   constructor() {
-    this.users = new Map();
+    this.transfers = new Map();
+    this.claims = new Map();
+    this.checkpoints = new Map();
+    this.nonces = new Map();
+    this.sessions = new Map();
+    this.transactions = new Map();
+    this.addressBook = new Map();
+    this.commandLog = [];
+    this.payments = new Map();
+    this.nextId = 1;
+  }
+
+  async getLatestCheckpoint(): Promise<IndexerCheckpoint | undefined> {
+    const [latest] = await this.getCheckpointsBefore(Infinity, 1);
+    return latest;
+  }
+
+  async getCheckpointsBefore(blockNumber: number, limit: number): Promise<IndexerCheckpoint[]> {
+    return Array.from(this.checkpoints, ([number, blockHash]) => ({ blockNumber: number, blockHash }))
+      .filter((checkpoint) => checkpoint.blockNumber < blockNumber)
+      .sort((a, b) => b.blockNumber - a.blockNumber)
+      .slice(0, limit);
+  }
+
+  async saveRange(range: IndexedRange): Promise<void> {
+    for (const transfer of range.transfers) {
+      const id = `${transfer.transactionHash}:${transfer.logIndex}:${transfer.batchIndex ?? 0}`;
+      if (!this.transfers.has(id)) {
+        this.transfers.set(id, { ...transfer, batchIndex: transfer.batchIndex ?? 0, id: this.nextId++ });
+      }
+    }
+    for (const claim of range.claims) {
+      const id = `${claim.transactionHash}:${claim.logIndex}`;
+      if (!this.claims.has(id)) {
+        this.claims.set(id, { ...claim, id: this.nextId++ });
+      }
+    }
+    for (const checkpoint of range.checkpoints) {
+      this.checkpoints.set(checkpoint.blockNumber, checkpoint.blockHash);
+    }
+  }
+
+  async rollbackAfter(blockNumber: number): Promise<void> {
+    for (const [id, transfer] of Array.from(this.transfers)) {
+      if (transfer.blockNumber > blockNumber) this.transfers.delete(id);
+    }
+    for (const [id, claim] of Array.from(this.claims)) {
+      if (claim.blockNumber > blockNumber) this.claims.delete(id);
+    }
+    for (const number of Array.from(this.checkpoints.keys())) {
+      if (number > blockNumber) this.checkpoints.delete(number);
+    }
+  }
+
+  async pruneCheckpoints(belowBlock: number): Promise<void> {
+    for (const number of Array.from(this.checkpoints.keys())) {
+      if (number < belowBlock) this.checkpoints.delete(number);
+    }
+  }
+
+  // Positive balances as address -> token ID -> quantity, replayed from the transfer log
+  private balances(tokenId?: string): Map<string, Map<string, bigint>> {
+    const balances = new Map<string, Map<string, bigint>>();
+    const move = (address: string, id: string, delta: bigint) => {
+      if (address === ethers.ZeroAddress) return;
+      const tokens = balances.get(address) ?? new Map<string, bigint>();
+      tokens.set(id, (tokens.get(id) ?? 0n) + delta);
+      balances.set(address, tokens);
+    };
+
+    for (const transfer of Array.from(this.transfers.values())) {
+      if (tokenId !== undefined && transfer.tokenId !== tokenId) continue;
+      move(transfer.to, transfer.tokenId, BigInt(transfer.value));
+      move(transfer.from, transfer.tokenId, -BigInt(transfer.value));
+    }
+
+    for (const [address, tokens] of Array.from(balances)) {
+      for (const [id, balance] of Array.from(tokens)) {
+        if (balance <= 0n) tokens.delete(id);
+      }
+      if (tokens.size === 0) balances.delete(address);
+    }
+    return balances;
+  }
+
+  async getSupplyTotals(query: CollectionQuery): Promise<SupplyTotals> {
+    let minted = 0n;
+    let burned = 0n;
+    for (const transfer of Array.from(this.transfers.values())) {
+      if (query.tokenId !== undefined && transfer.tokenId !== query.tokenId) continue;
+      if (transfer.from === ethers.ZeroAddress) minted += BigInt(transfer.value);
+      if (transfer.to === ethers.ZeroAddress) burned += BigInt(transfer.value);
+    }
+    return { minted: minted.toString(), burned: burned.toString(), holders: this.balances(query.tokenId).size };
+  }
+
+  async getHolders(query: HoldersQuery): Promise<{ items: Holder[]; total: number }> {
+    const holders = Array.from(this.balances(query.tokenId), ([address, tokens]) => ({
+      address,
+      balance: Array.from(tokens.values()).reduce((sum, balance) => sum + balance, 0n),
+      tokenIds: tokens.size,
+    }));
+
+    const direction = query.order === "asc" ? 1 : -1;
+    holders.sort((a, b) => {
+      if (query.sort === "balance" && a.balance !== b.balance) {
+        return (a.balance < b.balance ? -1 : 1) * direction;
+      }
+      return query.sort === "address" ? a.address.localeCompare(b.address) * direction : a.address.localeCompare(b.address);
+    });
+
+    return {
+      items: paginate(holders, query.page, query.pageSize).map((holder) => ({
+        ...holder,
+        address: ethers.getAddress(holder.address),
+        balance: holder.balance.toString(),
+      })),
+      total: holders.length,
+    };
+  }
+
+  async getWalletTokens(address: string): Promise<WalletTokens> {
+    const tokens = this.balances().get(key(address)) ?? new Map<string, bigint>();
+    return {
+      address: ethers.getAddress(address),
+      tokens: Array.from(tokens, ([tokenId, balance]) => ({ tokenId, balance: balance.toString() }))
+        .sort((a, b) => Number(BigInt(a.tokenId) - BigInt(b.tokenId))),
+    };
   }
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  async getMints(query: MintsQuery): Promise<{ items: Mint[]; total: number }> {
+    const mints = Array.from(this.claims.values())
+      .filter((claim) => query.tokenId === undefined || claim.tokenId === query.tokenId)
+      .filter((claim) => query.receiver === undefined || claim.receiver === key(query.receiver))
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+    return {
+      items: paginate(mints, query.page, query.pageSize).map((claim) => ({
+        transactionHash: claim.transactionHash,
+        blockNumber: claim.blockNumber,
+        blockTimestamp: claim.blockTimestamp,
+        claimer: ethers.getAddress(claim.claimer),
+        receiver: ethers.getAddress(claim.receiver),
+        tokenId: claim.tokenId,
+        quantity: claim.quantity,
+      })),
+      total: mints.length,
+    };
+  }
+
+  async createAuthNonce(nonce: InsertAuthNonce): Promise<AuthNonce> {
+    for (const [value, stored] of Array.from(this.nonces)) {
+      if (stored.expiresAt <= new Date()) this.nonces.delete(value);
+    }
+    this.nonces.set(nonce.nonce, nonce);
+    return nonce;
+  }
+
+  async consumeAuthNonce(nonce: string): Promise<boolean> {
+    const stored = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return stored !== undefined && stored.expiresAt > new Date();
+  }
+
+  async createWalletSession(session: InsertWalletSession): Promise<WalletSession> {
+    const created: WalletSession = {
+      ...session,
+      id: randomUUID(),
+      address: key(session.address),
+      createdAt: new Date(),
+    };
+    this.sessions.set(created.id, created);
+    return created;
+  }
+
+  async getWalletSession(id: string): Promise<WalletSession | undefined> {
+    const session = this.sessions.get(id);
+    return session && session.expiresAt > new Date() ? session : undefined;
+  }
+
+  async deleteWalletSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async saveTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction> {
+    const existing = this.transactions.get(transaction.hash);
+    if (existing && existing.address !== key(transaction.address)) {
+      return existing;
+    }
+    const saved: WalletTransaction = existing
+      ? {
+          ...existing,
+          status: transaction.status,
+          blockNumber: transaction.blockNumber ?? null,
+          error: transaction.error ?? null,
+        }
+      : {
+          ...transaction,
+          address: key(transaction.address),
+          blockNumber: transaction.blockNumber ?? null,
+          error: transaction.error ?? null,
+          submittedAt: transaction.submittedAt ?? new Date(),
+        };
+    this.transactions.set(saved.hash, saved);
+    return saved;
+  }
+
+  async getTransactions(address: string, limit: number): Promise<WalletTransaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((transaction) => transaction.address === key(address))
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime())
+      .slice(0, limit);
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+  async getAddressBook(owner: string, limit: number): Promise<AddressBookEntry[]> {
+    return Array.from(this.addressBook.values())
+      .filter((entry) => entry.owner === key(owner))
+      .sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime())
+      .slice(0, limit);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
+  async saveAddressBookEntry(entry: InsertAddressBookEntry): Promise<AddressBookEntry> {
+    const id = `${key(entry.owner)}:${key(entry.address)}`;
+    const existing = this.addressBook.get(id);
+    const saved: AddressBookEntry = {
+      id: existing?.id ?? this.nextId++,
+      owner: key(entry.owner),
+      address: ethers.getAddress(entry.address),
+      name: entry.name ?? null,
+      usedAt: new Date(),
+    };
+    this.addressBook.set(id, saved);
+    return saved;
+  }
+
+  async deleteAddressBookEntry(owner: string, address: string): Promise<boolean> {
+    return this.addressBook.delete(`${key(owner)}:${key(address)}`);
+  }
+
+  async logCommand(entry: InsertCommandLogEntry): Promise<CommandLogEntry> {
+    const logged: CommandLogEntry = {
+      ...entry,
+      id: this.nextId++,
+      sessionId: entry.sessionId ?? null,
+      address: entry.address ? key(entry.address) : null,
+      createdAt: new Date(),
+    };
+    this.commandLog.push(logged);
+    return logged;
+  }
+
+  async getCommandLog(address: string, limit: number): Promise<CommandLogEntry[]> {
+    return this.commandLog
+      .filter((entry) => entry.address === key(address))
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment | undefined> {
+    if (this.payments.has(payment.nonce)) return undefined;
+    const created: Payment = {
+      ...payment,
+      status: "settling",
+      payer: payment.payer ?? null,
+      transaction: null,
+      error: null,
+      createdAt: new Date(),
+      settledAt: null,
+    };
+    this.payments.set(created.nonce, created);
+    return created;
+  }
+
+  async getPayment(nonce: string): Promise<Payment | undefined> {
+    return this.payments.get(nonce);
+  }
+
+  async updatePayment(nonce: string, from: PaymentStatus, changes: PaymentUpdate): Promise<Payment | undefined> {
+    const payment = this.payments.get(nonce);
+    if (payment?.status !== from) return undefined;
+    const updated: Payment = { ...payment, ...changes };
+    this.payments.set(nonce, updated);
+    return updated;
+  }
+}
+
+// Postgres when DATABASE_URL is set; otherwise data lives in memory and is lost on restart
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new PgStorage(createDatabase(process.env.DATABASE_URL));
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,33 @@
+import fs from "fs/promises";
+import path from "path";
+import { type VaultItem } from "@shared/schema";
+
+// Files in the vault directory, sorted by name; empty when it doesn't exist
+export async function listVault(dir: string): Promise<VaultItem[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const items: VaultItem[] = [];
+  for (const name of names.sort()) {
+    const stats = await fs.stat(path.join(dir, name));
+    if (!stats.isFile() || name.startsWith(".")) continue;
+    items.push({
+      name,
+      size: stats.size,
+      updatedAt: stats.mtime.toISOString(),
+      url: `/api/vault/${encodeURIComponent(name)}`,
+    });
+  }
+  return items;
+}
+
+// Path of a listed vault file, or undefined for anything else (including `..` tricks)
+export async function resolveVaultFile(dir: string, name: string): Promise<string | undefined> {
+  const items = await listVault(dir);
+  return items.some((item) => item.name === name) ? path.join(dir, name) : undefined;
+}
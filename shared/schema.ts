@@ -1,9 +1,13 @@
 import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { pgTable, serial, text, varchar, integer, bigint, numeric, boolean, timestamp, unique, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 
 // Terminal command line entry
 export const terminalLineSchema = z.object({
   id: z.string(),
-  type: z.enum(["command", "output", "error", "info"]),
+  // "image" lines carry an image URL in `text` and render as a thumbnail
+  type: z.enum(["command", "output", "error", "info", "image"]),
   text: z.string(),
   timestamp: z.number(),
 });
@@ -20,21 +24,47 @@ export const walletSchema = z.object({
 export type Wallet = z.infer<typeof walletSchema>;
 
 // NFT metadata
+export const nftAttributeSchema = z.object({
+  trait_type: z.string().optional(),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
 export const nftSchema = z.object({
   tokenId: z.string(),
   name: z.string(),
   description: z.string().optional(),
   image: z.string().optional(),
+  attributes: z.array(nftAttributeSchema).optional(),
   owner: z.string(),
+  // Quantity held, for ERC1155 tokens
+  balance: z.string().optional(),
 });
 
 export type NFT = z.infer<typeof nftSchema>;
+export type NFTAttribute = z.infer<typeof nftAttributeSchema>;
+
+// Token metadata JSON as served from a token's `uri`; anything beyond these fields is ignored
+export const nftMetadataSchema = nftSchema.pick({
+  name: true,
+  description: true,
+  image: true,
+  attributes: true,
+});
+
+export type NFTMetadata = z.infer<typeof nftMetadataSchema>;
 
 // Transaction result
 export const transactionSchema = z.object({
   hash: z.string(),
   status: z.enum(["pending", "confirmed", "failed"]),
   blockNumber: z.number().optional(),
+  kind: z.enum(["approve", "claim", "transfer"]),
+  description: z.string(),
+  chainId: z.number(),
+  confirmations: z.number().optional(),
+  // Revert reason or wallet/RPC error when status is "failed"
+  error: z.string().optional(),
+  submittedAt: z.number(),
 });
 
 export type Transaction = z.infer<typeof transactionSchema>;
@@ -48,7 +78,7 @@ export const balanceSchema = z.object({
 export type Balance = z.infer<typeof balanceSchema>;
 
 // Command types
-export type CommandType = "connect" | "mint" | "balance" | "nfts" | "help" | "clear";
+export type CommandType = "connect" | "disconnect" | "whoami" | "login" | "logout" | "account" | "network" | "drop" | "eligibility" | "mint" | "transfer" | "balance" | "nfts" | "stats" | "holders" | "fetch" | "vault" | "tx" | "history" | "help" | "clear";
 
 // Command result
 export const commandResultSchema = z.object({
@@ -58,3 +88,513 @@ export const commandResultSchema = z.object({
 });
 
 export type CommandResult = z.infer<typeof commandResultSchema>;
+
+// Allowlist snapshot row, in the Drop contract's leaf format. Omitted fields fall
+// back to the claim condition: maxClaimable "0" means the default per-wallet limit,
+// no price/currency means the condition's price and currency.
+export const allowlistEntrySchema = z.object({
+  address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid address"),
+  maxClaimable: z.string().regex(/^\d+$/).default("0"),
+  // Base units of the currency, e.g. "500000" for 0.50 USDC
+  price: z.string().regex(/^\d+$/).optional(),
+  currencyAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+});
+
+export type AllowlistEntry = z.infer<typeof allowlistEntrySchema>;
+
+// Merkle proof for one allowlisted wallet, as passed to `claim`
+export const allowlistProofSchema = z.object({
+  address: z.string(),
+  merkleRoot: z.string(),
+  proof: z.array(z.string()),
+  quantityLimitPerWallet: z.string(),
+  pricePerToken: z.string(),
+  currency: z.string(),
+});
+
+export type AllowlistProof = z.infer<typeof allowlistProofSchema>;
+
+// Indexed chain data. Token IDs and amounts are uint256, stored as numeric(78)
+// strings; addresses are stored lowercase.
+const uint256 = (name: string) => numeric(name, { precision: 78, scale: 0 });
+
+// One row per (token ID, amount) moved by TransferSingle or TransferBatch; mints
+// come from the zero address and burns go to it
+export const transfers = pgTable("transfers", {
+  id: serial("id").primaryKey(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  blockHash: text("block_hash").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  // Position within a TransferBatch, 0 for TransferSingle
+  batchIndex: integer("batch_index").notNull().default(0),
+  operator: text("operator").notNull(),
+  from: text("from_address").notNull(),
+  to: text("to_address").notNull(),
+  tokenId: uint256("token_id").notNull(),
+  value: uint256("value").notNull(),
+}, (table) => [
+  unique().on(table.transactionHash, table.logIndex, table.batchIndex),
+  index().on(table.blockNumber),
+  index().on(table.from),
+  index().on(table.to),
+]);
+
+export const insertTransferSchema = createInsertSchema(transfers).omit({ id: true });
+
+export type IndexedTransfer = typeof transfers.$inferSelect;
+export type InsertIndexedTransfer = z.infer<typeof insertTransferSchema>;
+
+// TokensClaimed events from the drop
+export const claims = pgTable("claims", {
+  id: serial("id").primaryKey(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  blockHash: text("block_hash").notNull(),
+  // Unix seconds
+  blockTimestamp: bigint("block_timestamp", { mode: "number" }).notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  claimConditionIndex: integer("claim_condition_index").notNull(),
+  claimer: text("claimer").notNull(),
+  receiver: text("receiver").notNull(),
+  tokenId: uint256("token_id").notNull(),
+  quantity: uint256("quantity").notNull(),
+}, (table) => [
+  unique().on(table.transactionHash, table.logIndex),
+  index().on(table.blockNumber),
+  index().on(table.receiver),
+]);
+
+export const insertClaimSchema = createInsertSchema(claims).omit({ id: true });
+
+export type IndexedClaim = typeof claims.$inferSelect;
+export type InsertIndexedClaim = z.infer<typeof insertClaimSchema>;
+
+// Hashes of indexed blocks, used to detect reorgs and to resume where the indexer stopped
+export const indexerCheckpoints = pgTable("indexer_checkpoints", {
+  blockNumber: bigint("block_number", { mode: "number" }).primaryKey(),
+  blockHash: text("block_hash").notNull(),
+});
+
+export type IndexerCheckpoint = typeof indexerCheckpoints.$inferSelect;
+
+// Signed-in wallets, one row per server session
+export const walletSessions = pgTable("wallet_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  address: text("address").notNull(),
+  chainId: integer("chain_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index().on(table.address),
+]);
+
+export const insertWalletSessionSchema = createInsertSchema(walletSessions).omit({ id: true, createdAt: true });
+
+export type WalletSession = typeof walletSessions.$inferSelect;
+export type InsertWalletSession = z.infer<typeof insertWalletSessionSchema>;
+
+// Transactions sent from the terminal, mirroring the client's transaction tracker
+export const walletTransactions = pgTable("wallet_transactions", {
+  hash: text("hash").primaryKey(),
+  address: text("address").notNull(),
+  chainId: integer("chain_id").notNull(),
+  kind: text("kind", { enum: ["approve", "claim", "transfer"] }).notNull(),
+  description: text("description").notNull(),
+  status: text("status", { enum: ["pending", "confirmed", "failed"] }).notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }),
+  error: text("error"),
+  submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+}, (table) => [
+  index().on(table.address),
+]);
+
+export const insertWalletTransactionSchema = createInsertSchema(walletTransactions, {
+  hash: (schema) => schema.regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash"),
+  description: (schema) => schema.max(200),
+  error: (schema) => schema.max(500),
+});
+
+export type WalletTransaction = typeof walletTransactions.$inferSelect;
+export type InsertWalletTransaction = z.infer<typeof insertWalletTransactionSchema>;
+
+// Addresses a wallet has sent to or looked up, for tab completion on any device
+export const addressBook = pgTable("address_book", {
+  id: serial("id").primaryKey(),
+  owner: text("owner").notNull(),
+  address: text("address").notNull(),
+  // ENS / Basename the address was last entered as, if any
+  name: text("name"),
+  usedAt: timestamp("used_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.owner, table.address),
+]);
+
+export const insertAddressBookEntrySchema = createInsertSchema(addressBook, {
+  address: (schema) => schema.regex(/^0x[0-9a-fA-F]{40}$/, "Invalid address"),
+  name: (schema) => schema.min(1).max(255),
+}).omit({ id: true, usedAt: true });
+
+export type AddressBookEntry = typeof addressBook.$inferSelect;
+export type InsertAddressBookEntry = z.infer<typeof insertAddressBookEntrySchema>;
+
+// Every command run in the terminal, for support and abuse investigations
+export const commandLog = pgTable("command_log", {
+  id: serial("id").primaryKey(),
+  sessionId: varchar("session_id"),
+  // Connected wallet at the time, if any
+  address: text("address"),
+  command: text("command").notNull(),
+  // Raw input as typed, including arguments
+  input: text("input").notNull(),
+  success: boolean("success").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index().on(table.address),
+]);
+
+export const insertCommandLogEntrySchema = createInsertSchema(commandLog, {
+  command: (schema) => schema.max(32),
+  input: (schema) => schema.max(1000),
+}).omit({ id: true, createdAt: true });
+
+export type CommandLogEntry = typeof commandLog.$inferSelect;
+export type InsertCommandLogEntry = z.infer<typeof insertCommandLogEntrySchema>;
+
+// Indexer API: query params and responses of /api/collection, /api/holders,
+// /api/wallets/:address/tokens and /api/mints
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid address");
+const tokenIdSchema = z.string().regex(/^\d+$/, "Token ID must be a number");
+
+const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+
+export function paginatedSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    page: z.number(),
+    pageSize: z.number(),
+    total: z.number(),
+  });
+}
+
+export const collectionQuerySchema = z.object({
+  // Limits counts to one token ID; without it they cover the whole collection
+  tokenId: tokenIdSchema.optional(),
+});
+
+export type CollectionQuery = z.infer<typeof collectionQuerySchema>;
+
+// Price of the active claim condition, in the currency's base units
+export const claimPriceSchema = z.object({
+  tokenId: z.string(),
+  pricePerToken: z.string(),
+  currency: z.string(),
+  currencySymbol: z.string(),
+  currencyDecimals: z.number(),
+});
+
+export type ClaimPrice = z.infer<typeof claimPriceSchema>;
+
+export const collectionStatsSchema = z.object({
+  contract: z.string(),
+  // Minted minus burned
+  supply: z.string(),
+  minted: z.string(),
+  burned: z.string(),
+  holders: z.number(),
+  // null when no claim condition is active
+  price: claimPriceSchema.nullable(),
+  // Last block the indexer has processed, null before the first sync
+  indexedBlock: z.number().nullable(),
+});
+
+export type CollectionStats = z.infer<typeof collectionStatsSchema>;
+
+export const holdersQuerySchema = paginationQuerySchema.extend({
+  sort: z.enum(["balance", "address"]).default("balance"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  tokenId: tokenIdSchema.optional(),
+});
+
+export type HoldersQuery = z.infer<typeof holdersQuerySchema>;
+
+export const holderSchema = z.object({
+  address: z.string(),
+  // Tokens held across all IDs (or of the requested ID)
+  balance: z.string(),
+  // Number of distinct token IDs held
+  tokenIds: z.number(),
+});
+
+export type Holder = z.infer<typeof holderSchema>;
+
+export const holdersResponseSchema = paginatedSchema(holderSchema);
+
+export type HoldersResponse = z.infer<typeof holdersResponseSchema>;
+
+// Every holder at once; a paid endpoint
+export const holdersExportSchema = z.object({
+  contract: z.string(),
+  indexedBlock: z.number().nullable(),
+  holders: z.array(holderSchema),
+});
+
+export type HoldersExport = z.infer<typeof holdersExportSchema>;
+
+export const walletAddressParamsSchema = z.object({
+  address: addressSchema,
+});
+
+export const walletTokensSchema = z.object({
+  address: z.string(),
+  tokens: z.array(z.object({
+    tokenId: z.string(),
+    balance: z.string(),
+  })),
+});
+
+export type WalletTokens = z.infer<typeof walletTokensSchema>;
+
+export const mintsQuerySchema = paginationQuerySchema.extend({
+  tokenId: tokenIdSchema.optional(),
+  receiver: addressSchema.optional(),
+});
+
+export type MintsQuery = z.infer<typeof mintsQuerySchema>;
+
+export const mintSchema = z.object({
+  transactionHash: z.string(),
+  blockNumber: z.number(),
+  // Unix seconds
+  blockTimestamp: z.number(),
+  claimer: z.string(),
+  receiver: z.string(),
+  tokenId: z.string(),
+  quantity: z.string(),
+});
+
+export type Mint = z.infer<typeof mintSchema>;
+
+export const mintsResponseSchema = paginatedSchema(mintSchema);
+
+export type MintsResponse = z.infer<typeof mintsResponseSchema>;
+
+// Single-use Sign-In With Ethereum nonces; consumed on verify so a signed message can't be replayed
+export const authNonces = pgTable("auth_nonces", {
+  nonce: text("nonce").primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertAuthNonceSchema = createInsertSchema(authNonces);
+
+export type AuthNonce = typeof authNonces.$inferSelect;
+export type InsertAuthNonce = z.infer<typeof insertAuthNonceSchema>;
+
+// Fields of an EIP-4361 message, as formatted and parsed by shared/siwe.ts
+export const siweMessageSchema = z.object({
+  domain: z.string().min(1),
+  address: addressSchema,
+  statement: z.string().optional(),
+  uri: z.string().url(),
+  version: z.literal("1"),
+  chainId: z.number().int().positive(),
+  nonce: z.string().regex(/^[A-Za-z0-9]{8,}$/, "Nonce must be at least 8 alphanumeric characters"),
+  issuedAt: z.string().datetime({ offset: true }),
+  expirationTime: z.string().datetime({ offset: true }).optional(),
+  notBefore: z.string().datetime({ offset: true }).optional(),
+  requestId: z.string().optional(),
+  resources: z.array(z.string().url()).optional(),
+});
+
+export type SiweMessage = z.infer<typeof siweMessageSchema>;
+
+export const authNonceResponseSchema = z.object({
+  nonce: z.string(),
+});
+
+export const authVerifySchema = z.object({
+  message: z.string(),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "Invalid signature"),
+});
+
+export type AuthVerify = z.infer<typeof authVerifySchema>;
+
+// The signed-in wallet, from /api/auth/verify and /api/auth/me
+export const authSessionSchema = z.object({
+  address: z.string(),
+  chainId: z.number(),
+  expiresAt: z.string(),
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Downloadable perks for holders
+export const vaultItemSchema = z.object({
+  name: z.string(),
+  // Bytes
+  size: z.number(),
+  updatedAt: z.string(),
+  url: z.string(),
+});
+
+export type VaultItem = z.infer<typeof vaultItemSchema>;
+
+export const vaultResponseSchema = z.object({
+  // Token that unlocks the vault
+  tokenId: z.string(),
+  items: z.array(vaultItemSchema),
+});
+
+export type VaultResponse = z.infer<typeof vaultResponseSchema>;
+
+// HTTP 402 payments (x402 "exact" scheme): the server names a price in USDC, the
+// client signs an EIP-3009 transferWithAuthorization for it and retries with the
+// signed payload in the X-PAYMENT header
+const bytes32Schema = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected 32 bytes of hex");
+
+export const paymentRequirementSchema = z.object({
+  scheme: z.literal("exact"),
+  network: z.string(),
+  chainId: z.number(),
+  // Base units of `asset`
+  maxAmountRequired: z.string().regex(/^\d+$/),
+  asset: addressSchema,
+  payTo: addressSchema,
+  resource: z.string(),
+  description: z.string(),
+  mimeType: z.string(),
+  maxTimeoutSeconds: z.number(),
+  // Must be used as the authorization nonce; each one pays for a single request
+  nonce: bytes32Schema,
+  // EIP-712 domain of the token, needed to sign the authorization
+  extra: z.object({
+    name: z.string(),
+    version: z.string(),
+  }),
+});
+
+export type PaymentRequirement = z.infer<typeof paymentRequirementSchema>;
+
+// Body of a 402 response
+export const paymentRequiredResponseSchema = z.object({
+  x402Version: z.literal(1),
+  error: z.string(),
+  accepts: z.array(paymentRequirementSchema),
+});
+
+export type PaymentRequiredResponse = z.infer<typeof paymentRequiredResponseSchema>;
+
+export const transferAuthorizationSchema = z.object({
+  from: addressSchema,
+  to: addressSchema,
+  value: z.string().regex(/^\d+$/),
+  // Unix seconds
+  validAfter: z.string().regex(/^\d+$/),
+  validBefore: z.string().regex(/^\d+$/),
+  nonce: bytes32Schema,
+});
+
+export type TransferAuthorization = z.infer<typeof transferAuthorizationSchema>;
+
+// Decoded X-PAYMENT header (base64 JSON)
+export const paymentPayloadSchema = z.object({
+  x402Version: z.literal(1),
+  scheme: z.literal("exact"),
+  network: z.string(),
+  payload: z.object({
+    signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "Invalid signature"),
+    authorization: transferAuthorizationSchema,
+  }),
+});
+
+export type PaymentPayload = z.infer<typeof paymentPayloadSchema>;
+
+// Decoded X-PAYMENT-RESPONSE header of a paid response
+export const paymentResponseSchema = z.object({
+  success: z.boolean(),
+  // null when the payment was only recorded, e.g. by the local verifier
+  transaction: z.string().nullable(),
+  network: z.string(),
+  payer: z.string(),
+});
+
+export type PaymentResponse = z.infer<typeof paymentResponseSchema>;
+
+// Payments presented for paid endpoints and what became of them; requirements are
+// only recorded once someone pays one
+export const payments = pgTable("payments", {
+  nonce: text("nonce").primaryKey(),
+  resource: text("resource").notNull(),
+  network: text("network").notNull(),
+  asset: text("asset").notNull(),
+  payTo: text("pay_to").notNull(),
+  amount: uint256("amount").notNull(),
+  status: text("status", { enum: ["settling", "settled", "failed"] }).notNull().default("settling"),
+  payer: text("payer"),
+  transaction: text("transaction"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).pick({
+  nonce: true,
+  resource: true,
+  network: true,
+  asset: true,
+  payTo: true,
+  amount: true,
+  expiresAt: true,
+  payer: true,
+});
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentStatus = Payment["status"];
+export type PaymentUpdate = Partial<Pick<Payment, "status" | "payer" | "transaction" | "error" | "settledAt">>;
+
+// Terminal activity API: what the signed-in wallet sends to and reads from
+// /api/transactions, /api/address-book and /api/commands. The owner always comes
+// from the session.
+export const recordTransactionSchema = insertWalletTransactionSchema
+  .omit({ address: true, submittedAt: true })
+  .extend({ submittedAt: z.number() });
+export const saveAddressBookEntrySchema = insertAddressBookEntrySchema.omit({ owner: true });
+export const recordCommandSchema = insertCommandLogEntrySchema.omit({ sessionId: true, address: true });
+
+export type RecordTransaction = z.infer<typeof recordTransactionSchema>;
+export type SaveAddressBookEntry = z.infer<typeof saveAddressBookEntrySchema>;
+export type RecordCommand = z.infer<typeof recordCommandSchema>;
+
+export const activityQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const transactionsResponseSchema = z.object({
+  items: z.array(transactionSchema),
+});
+
+export const addressBookResponseSchema = z.object({
+  items: z.array(z.object({
+    address: addressSchema,
+    name: z.string().nullable(),
+    usedAt: z.string(),
+  })),
+});
+
+export const commandLogResponseSchema = z.object({
+  items: z.array(z.object({
+    command: z.string(),
+    input: z.string(),
+    success: z.boolean(),
+    createdAt: z.string(),
+  })),
+});
+
+export type AddressBookResponse = z.infer<typeof addressBookResponseSchema>;
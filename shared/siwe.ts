@@ -0,0 +1,91 @@
+import { siweMessageSchema, type SiweMessage } from "./schema";
+
+// EIP-4361 message text. Field order and labels are fixed by the spec, so the
+// server can parse back exactly what the wallet showed the user.
+const PREAMBLE = " wants you to sign in with your Ethereum account:";
+
+const OPTIONAL_FIELDS = [
+  ["expirationTime", "Expiration Time"],
+  ["notBefore", "Not Before"],
+  ["requestId", "Request ID"],
+] as const;
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${PREAMBLE}`,
+    message.address,
+    "",
+    ...(message.statement ? [message.statement, ""] : [""]),
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  ];
+  for (const [field, label] of OPTIONAL_FIELDS) {
+    const value = message[field];
+    if (value) lines.push(`${label}: ${value}`);
+  }
+  if (message.resources?.length) {
+    lines.push("Resources:", ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join("\n");
+}
+
+// Throws when the text isn't a well-formed EIP-4361 message
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n");
+  const header = lines.shift() ?? "";
+  if (!header.endsWith(PREAMBLE)) {
+    throw new Error("Not a Sign-In With Ethereum message");
+  }
+
+  const domain = header.slice(0, -PREAMBLE.length);
+  const address = lines.shift();
+  if (lines.shift() !== "") {
+    throw new Error("Malformed message: expected a blank line after the address");
+  }
+
+  // An optional statement sits between two blank lines; without one there's a single extra blank line
+  let statement: string | undefined;
+  if (lines[0] !== "") {
+    statement = lines.shift();
+  }
+  if (lines.shift() !== "") {
+    throw new Error("Malformed message: expected a blank line before the URI");
+  }
+
+  const fields = new Map<string, string>();
+  const resources: string[] = [];
+  let inResources = false;
+  for (const line of lines) {
+    if (inResources && line.startsWith("- ")) {
+      resources.push(line.slice(2));
+      continue;
+    }
+    if (line === "Resources:") {
+      inResources = true;
+      continue;
+    }
+    const separator = line.indexOf(": ");
+    if (separator === -1) {
+      throw new Error(`Malformed message line: ${line}`);
+    }
+    fields.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  return siweMessageSchema.parse({
+    domain,
+    address,
+    statement,
+    uri: fields.get("URI"),
+    version: fields.get("Version"),
+    chainId: Number(fields.get("Chain ID")),
+    nonce: fields.get("Nonce"),
+    issuedAt: fields.get("Issued At"),
+    expirationTime: fields.get("Expiration Time"),
+    notBefore: fields.get("Not Before"),
+    requestId: fields.get("Request ID"),
+    resources: resources.length > 0 ? resources : undefined,
+  });
+}